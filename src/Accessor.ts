@@ -111,18 +111,7 @@ export class Setter extends Accessor {
      */
     static async create(memberVariable: CSymbol): Promise<Setter> {
         const setter = new Setter(memberVariable);
-        const type = memberVariable.parsableLeadingText.replace(/\b(static|mutable)\s*/g, '')
-                .replace('[[', '').replace(']]', '').replace(/\s+/g, ' ').trimStart();
-
-        if (!memberVariable.isPointer() && !(await memberVariable.isPrimitive(cfg.resolveTypes(memberVariable.uri)))) {
-            setter.parameter = (memberVariable.isReference()
-                ? 'const ' + type
-                : 'const ' + type + '&'
-            ) + setter.parameterName;
-        } else {
-            setter.parameter = type.replace(/&(?!.*>)/, '') + setter.parameterName;
-        }
-
+        setter.parameter = await parameterTypeFor(memberVariable) + setter.parameterName;
         return setter;
     }
 
@@ -146,3 +135,17 @@ export class Setter extends Accessor {
         this.body = `${memberPrefix + memberVariable.name} = ${this.parameterName};`;
     }
 }
+
+/**
+ * Returns the type of a parameter that is used to pass a value to memberVariable. Non-primitive,
+ * non-pointer types are passed by const-reference.
+ */
+export async function parameterTypeFor(memberVariable: CSymbol): Promise<string> {
+    const type = memberVariable.parsableLeadingText.replace(/\b(static|mutable)\s*/g, '')
+            .replace('[[', '').replace(']]', '').replace(/\s+/g, ' ').trimStart();
+
+    if (!memberVariable.isPointer() && !(await memberVariable.isPrimitive(cfg.resolveTypes(memberVariable.uri)))) {
+        return memberVariable.isReference() ? 'const ' + type : 'const ' + type + '&';
+    }
+    return type.replace(/&(?!.*>)/, '');
+}
@@ -430,6 +430,33 @@ export default class CSymbol extends SourceSymbol {
         return baseClasses;
     }
 
+    /**
+     * Finds the definitions of this class's base classes via the language server.
+     * Base classes whose definitions cannot be found are omitted.
+     */
+    async resolveBaseClasses(): Promise<CSymbol[]> {
+        const baseClassSymbols = await Promise.all(
+                this.baseClasses().map(baseClass => this.resolveBaseClass(baseClass)));
+        return baseClassSymbols.filter((symbol): symbol is CSymbol => symbol !== undefined);
+    }
+
+    /**
+     * Finds the definition of one of the base classes returned by baseClasses() via the language server.
+     */
+    async resolveBaseClass(baseClass: SubSymbol): Promise<CSymbol | undefined> {
+        const definitionResults = await vscode.commands.executeCommand<util.LocationType[]>(
+                'vscode.executeDefinitionProvider', baseClass.uri, baseClass.selectionRange.start);
+        for (const location of util.makeLocationArray(definitionResults)) {
+            const baseClassDoc = (location.uri.fsPath === this.uri.fsPath)
+                    ? this.document
+                    : await SourceDocument.open(location.uri);
+            const baseClassSymbol = await baseClassDoc.getSymbol(location.range.start);
+            if (baseClassSymbol?.isClassType()) {
+                return baseClassSymbol;
+            }
+        }
+    }
+
     childNamespaces(): CSymbol[] {
         const namespaces: CSymbol[] = [];
         this.children.forEach(child => {
@@ -813,15 +840,36 @@ export default class CSymbol extends SourceSymbol {
         return this.formatDeclaration(targetDoc, position, undefined, true);
     }
 
+    /**
+     * Formats this function for use as the definition (without curly braces) of a member function of parentClass
+     * that has the same signature, such as an override of this function. formatText is applied to the text that is
+     * taken from this function, but not to the scopes and template statements of parentClass.
+     */
+    async newMemberFunctionDefinition(
+        targetDoc: SourceDocument,
+        position: vscode.Position,
+        parentClass: CSymbol,
+        formatText?: (text: string) => string
+    ): Promise<string> {
+        if (!this.isFunction()) {
+            return '';
+        }
+        const scopeString = await parentClass.scopeString(targetDoc, position);
+        return this.formatDeclaration(targetDoc, position, scopeString, true, parentClass, formatText);
+    }
+
     private async formatDeclaration(
         targetDoc: SourceDocument,
         position: vscode.Position,
         scopeString?: string,
-        checkForInline?: boolean
+        checkForInline?: boolean,
+        parentClass?: CSymbol,
+        formatText: (text: string) => string = (text): string => text
     ): Promise<string> {
         if (scopeString === undefined) {
             scopeString = await this.scopeString(targetDoc, position);
         }
+        const parent = parentClass ?? this.parent;
 
         const declarationStart = this.declarationStart();
         const declarationRange = new vscode.Range(declarationStart, this.declarationEnd());
@@ -841,8 +889,8 @@ export default class CSymbol extends SourceSymbol {
         const nameToParamRange = new vscode.Range(this.selectionRange.start, paramStart);
 
         const inlineSpecifier =
-            ((!this.parent || !util.containsExclusive(this.parent.range, position))
-            && (this.document.fileName === targetDoc.fileName || targetDoc.isHeader())
+            ((!parent || !util.containsExclusive(parent.range, position))
+            && ((parentClass ?? this).document.fileName === targetDoc.fileName || targetDoc.isHeader())
             && checkForInline && !this.isInline() && !this.isConstexpr() && !this.isConsteval())
                 ? 'inline '
                 : '';
@@ -864,7 +912,7 @@ export default class CSymbol extends SourceSymbol {
         }
         leadingText = leadingText.replace(parse.getIndentationRegExp(this), '');
         let definition = this.document.getText(nameToParamRange)
-                + '(' + parameters + ')' + declaration.substring(paramEndIndex + 1);
+                + '(' + parameters + ')' + declaration.substring(paramEndIndex + 1).replace(/\s*=\s*0\s*$/, '');
 
         const eol = targetDoc.endOfLine;
         const newLeadingLines = leadingText.split(eol);
@@ -874,8 +922,10 @@ export default class CSymbol extends SourceSymbol {
             definition = definition.replace(
                     re_newLineAlignment, ' '.repeat(newAlignLength + inlineSpecifierAlignment + scopeString.length));
         }
-        definition = this.combinedTemplateStatements(true, eol)
-                + inlineSpecifier + leadingText + scopeString + definition;
+        const templateStatements = parentClass
+                ? parentClass.combinedTemplateStatements(true, eol, true)
+                : this.combinedTemplateStatements(true, eol);
+        definition = templateStatements + inlineSpecifier + formatText(leadingText) + scopeString + formatText(definition);
         return definition.replace(/\s*\b(override|final)\b/g, '');
     }
 
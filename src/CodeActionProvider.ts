@@ -9,10 +9,31 @@ import FunctionSignature from './FunctionSignature';
 import { failure as addDefinitionFailure, title as addDefinitionTitle } from './commands/addDefinition';
 import { failure as addDeclarationFailure, title as addDeclarationTitle } from './commands/addDeclaration';
 import { failure as moveDefinitionFailure, title as moveDefinitionTitle } from './commands/moveDefinition';
+import { title as changeSignatureTitle } from './commands/changeSignature';
+import {
+    failure as convertReturnTypeFailure, title as convertReturnTypeTitle, getConversionFailure
+} from './commands/convertReturnType';
+import { findSpecifierToggles } from './commands/toggleSpecifier';
+import { title as extractClassTitle } from './commands/extractClass';
+import { title as extractFunctionTitle, isWithinFunctionBody } from './commands/extractFunction';
+import { title as inlineFunctionTitle, findFunctionCall } from './commands/inlineFunction';
 import { failure as getterSetterFailure, title as getterSetterTitle } from './commands/generateGetterSetter';
 import { title as operatorTitle } from './commands/generateOperators';
+import { title as constructorTitle } from './commands/generateConstructor';
+import { title as specialMembersTitle } from './commands/generateSpecialMembers';
+import { title as overrideTitle } from './commands/overrideVirtualFunctions';
+import { title as swapTitle } from './commands/generateSwap';
+import { title as hashTitle } from './commands/generateHashSpecialization';
+import { title as enumToStringTitle } from './commands/generateEnumToString';
+import {
+    title as caseLabelsTitle, findSwitchStatement, resolveEnum, findMissingEnumerators
+} from './commands/addMissingCaseLabels';
+import {
+    failure as staticMemberFailure, title as staticMemberTitle, isStaticMemberVariable
+} from './commands/addStaticMemberDefinition';
 import { failure as createSourceFileFailure } from './commands/createSourceFile';
 import { failure as addHeaderGuardFailure, headerGuardMatchesConfiguredStyle } from './commands/addHeaderGuard';
+import { DeclarationDiagnostics } from './DeclarationDiagnostics';
 import { getMatchingHeaderSource } from './extension';
 import { CmanticCommand, CmanticCommandId } from './commands/commands';
 
@@ -110,6 +131,7 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
     private addDeclarationEnabled!: boolean;
     private moveDefinitionEnabled!: boolean;
     private generateGetterSetterEnabled!: boolean;
+    private extractFunctionEnabled!: boolean;
     private updateSignatureEnabled!: boolean;
 
     private currentFunction?: LinkedLocation;
@@ -145,6 +167,7 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
         this.addDeclarationEnabled = cfg.addDeclarationEnabled();
         this.moveDefinitionEnabled = cfg.moveDefinitionEnabled();
         this.generateGetterSetterEnabled = cfg.generateGetterSetterEnabled();
+        this.extractFunctionEnabled = cfg.extractFunctionEnabled();
         this.updateSignatureEnabled = cfg.updateSignatureEnabled();
 
         if (!this.updateSignatureEnabled) {
@@ -247,13 +270,23 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
             return this.getFileRefactorings(context, sourceDoc, matchingUri);
         }
 
-        const refactorActions = await Promise.all([
+        const refactorActions = await Promise.all<RefactorAction | RefactorAction[] | undefined>([
             this.getUpdateSignatureRefactoring(rangeOrSelection, context, symbol, sourceDoc),
+            this.getSignatureMismatchQuickFix(context, symbol, sourceDoc),
+            this.getChangeSignatureRefactoring(rangeOrSelection, context, symbol, sourceDoc),
+            this.getConvertReturnTypeRefactoring(rangeOrSelection, context, symbol, sourceDoc),
+            this.getToggleSpecifierRefactorings(rangeOrSelection, context, symbol, sourceDoc),
             this.getAddDefinitionRefactorings(context, symbol, sourceDoc, matchingUri),
+            this.getAddStaticMemberDefinitionRefactoring(rangeOrSelection, context, symbol, sourceDoc, matchingUri),
             this.getAddDeclarationRefactoring(rangeOrSelection, context, symbol, sourceDoc, matchingUri),
+            this.getAddMissingDeclarationsQuickFix(context, symbol, sourceDoc),
             this.getMoveDefinitionRefactorings(rangeOrSelection, context, symbol, sourceDoc, matchingUri),
             this.getGetterSetterRefactorings(rangeOrSelection, context, symbol, sourceDoc, matchingUri),
             this.getClassRefactorings(context, symbol, sourceDoc),
+            this.getEnumRefactorings(context, symbol, sourceDoc),
+            this.getAddMissingCaseLabelsRefactoring(rangeOrSelection, context, symbol, sourceDoc),
+            this.getExtractFunctionRefactoring(rangeOrSelection, context, symbol, sourceDoc),
+            this.getInlineFunctionRefactoring(rangeOrSelection, context, symbol, sourceDoc),
             this.getFileRefactorings(context, sourceDoc, matchingUri)
         ]);
 
@@ -268,6 +301,17 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
             && (this.addDefinitionEnabled || !!context.only?.contains(vscode.CodeActionKind.Refactor));
     }
 
+    private shouldProvideAddStaticMemberDefinition(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        symbol: CSymbol
+    ): boolean {
+        return symbol.document.languageId === 'cpp' && isStaticMemberVariable(symbol)
+            && !symbol.isInline() && !symbol.isConstexpr()
+            && ((this.addDefinitionEnabled && symbol.selectionRange.contains(rangeOrSelection.start))
+                || !!context.only?.contains(vscode.CodeActionKind.Refactor));
+    }
+
     private shouldProvideAddDeclaration(
         rangeOrSelection: vscode.Range | vscode.Selection,
         context: vscode.CodeActionContext,
@@ -275,7 +319,8 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
     ): boolean {
         return symbol.isFunctionDefinition()
             && (this.addDeclarationEnabled && symbol.selectionRange.contains(rangeOrSelection.start)
-                || !!context.only?.contains(vscode.CodeActionKind.Refactor));
+                || !!context.only?.contains(vscode.CodeActionKind.Refactor)
+                || findMissingDeclarationDiagnostic(context.diagnostics, symbol) !== undefined);
     }
 
     private shouldProvideMoveDefinition(
@@ -307,6 +352,15 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
             && !!context.only?.contains(vscode.CodeActionKind.Refactor);
     }
 
+    private shouldProvideEnumRefactorings(
+        context: vscode.CodeActionContext,
+        symbol: CSymbol
+    ): boolean {
+        return symbol.document.languageId === 'cpp'
+            && (symbol.isEnum() || !!symbol.parent?.isEnum())
+            && !!context.only?.contains(vscode.CodeActionKind.Refactor);
+    }
+
     private async getUpdateSignatureRefactoring(
         rangeOrSelection: vscode.Range | vscode.Selection,
         context: vscode.CodeActionContext,
@@ -358,6 +412,108 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
         return updateSignature;
     }
 
+    private async getSignatureMismatchQuickFix(
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        const diagnostic = context.diagnostics.find(diagnostic => diagnostic.source === DeclarationDiagnostics.source
+                && diagnostic.code === DeclarationDiagnostics.signatureMismatchCode
+                && symbol.selectionRange.intersection(diagnostic.range));
+        const linkedLocation = diagnostic?.relatedInformation?.[0]?.location;
+        if (!diagnostic || !linkedLocation || !symbol.isFunction()
+                || (this.changedFunction && declarationRange(symbol).intersection(this.changedFunction.range))) {
+            return;
+        }
+
+        const linkedDoc = linkedLocation.uri.fsPath === sourceDoc.uri.fsPath
+                ? sourceDoc
+                : await SourceDocument.open(linkedLocation.uri);
+        const linkedFunction = await linkedDoc.getSymbol(linkedLocation.range.start);
+        if (!linkedFunction?.isFunction()) {
+            return;
+        }
+
+        const title = symbol.isFunctionDeclaration() ? 'Update Function Definition' : 'Update Function Declaration';
+        const updateSignature = new RefactorAction(title, 'cmantic.updateSignature');
+        // The linked function still has the signature that this function had before it was changed.
+        updateSignature.setArguments(symbol, new FunctionSignature(linkedFunction), sourceDoc, linkedLocation);
+
+        if (!context.only?.contains(vscode.CodeActionKind.Refactor)) {
+            updateSignature.kind = vscode.CodeActionKind.QuickFix;
+            updateSignature.isPreferred = true;
+            updateSignature.diagnostics = [diagnostic];
+        }
+
+        return updateSignature;
+    }
+
+    private async getChangeSignatureRefactoring(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        if (!context.only?.contains(vscode.CodeActionKind.Refactor) || !symbol.isFunction() || symbol.isDestructor()
+                || !declarationRange(symbol).contains(rangeOrSelection.start)) {
+            return;
+        }
+
+        const changeSignature = new RefactorAction(changeSignatureTitle.changeSignature, 'cmantic.changeSignature');
+        changeSignature.setArguments(symbol, sourceDoc);
+
+        return changeSignature;
+    }
+
+    private async getConvertReturnTypeRefactoring(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        if (!context.only?.contains(vscode.CodeActionKind.Refactor) || sourceDoc.languageId !== 'cpp'
+                || !symbol.isFunction() || !declarationRange(symbol).contains(rangeOrSelection.start)) {
+            return;
+        }
+
+        const style = new FunctionSignature(symbol).hasTrailingReturnType ? 'leading' : 'trailing';
+        const conversionFailure = getConversionFailure(symbol, style);
+        if (conversionFailure === convertReturnTypeFailure.noReturnType) {
+            return;
+        }
+
+        const convertReturnType = style === 'trailing'
+                ? new RefactorAction(convertReturnTypeTitle.toTrailing, 'cmantic.convertToTrailingReturnType')
+                : new RefactorAction(convertReturnTypeTitle.toLeading, 'cmantic.convertToLeadingReturnType');
+        convertReturnType.setArguments(symbol, sourceDoc);
+
+        if (conversionFailure) {
+            convertReturnType.disable(conversionFailure);
+        }
+
+        return convertReturnType;
+    }
+
+    private async getToggleSpecifierRefactorings(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction[] | undefined> {
+        if (!context.only?.contains(vscode.CodeActionKind.Refactor) || sourceDoc.languageId !== 'cpp'
+                || !symbol.isFunction() || !declarationRange(symbol).contains(rangeOrSelection.start)) {
+            return;
+        }
+
+        const toggles = await findSpecifierToggles(symbol);
+
+        return toggles.map(toggle => {
+            const toggleSpecifier = new RefactorAction(toggle.title, 'cmantic.toggleSpecifier');
+            toggleSpecifier.setArguments(toggle.specifier, symbol, sourceDoc);
+            return toggleSpecifier;
+        });
+    }
+
     private async getAddDefinitionRefactorings(
         context: vscode.CodeActionContext,
         declaration: CSymbol,
@@ -414,6 +570,38 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
         return [addDefinitionInMatchingSourceFile, addDefinitionInCurrentFile];
     }
 
+    private async getAddStaticMemberDefinitionRefactoring(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        memberVariable: CSymbol,
+        sourceDoc: SourceDocument,
+        matchingUri?: vscode.Uri
+    ): Promise<RefactorAction | undefined> {
+        if (!this.shouldProvideAddStaticMemberDefinition(rangeOrSelection, context, memberVariable)) {
+            return;
+        }
+
+        const p_existingDefinition = memberVariable.findDefinition();
+
+        const addDefinition = new RefactorAction(staticMemberTitle.currentFile, 'cmantic.addStaticMemberDefinition');
+
+        if (!sourceDoc.isHeader() || memberVariable.hasUnspecializedTemplate()) {
+            addDefinition.setArguments(memberVariable, sourceDoc, sourceDoc.uri, true);
+        } else if (matchingUri) {
+            addDefinition.setTitle(`Add Definition in "${util.formatPathToDisplay(matchingUri)}"`);
+            addDefinition.setArguments(memberVariable, sourceDoc, matchingUri, true);
+        } else {
+            addDefinition.setTitle(staticMemberTitle.matchingSourceFile);
+            addDefinition.disable(staticMemberFailure.noMatchingSourceFile);
+        }
+
+        if (await p_existingDefinition !== undefined) {
+            addDefinition.disable(staticMemberFailure.definitionExists);
+        }
+
+        return addDefinition;
+    }
+
     private async getAddDeclarationRefactoring(
         rangeOrSelection: vscode.Range | vscode.Selection,
         context: vscode.CodeActionContext,
@@ -462,6 +650,12 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
                 const displayPath = util.formatPathToDisplay(matchingUri);
                 addDeclaration.setTitle(`Add Declaration in "${displayPath}"`);
                 addDeclaration.setArguments(definition, sourceDoc, matchingUri);
+                const diagnostic = findMissingDeclarationDiagnostic(context.diagnostics, definition);
+                if (diagnostic && !context.only?.contains(vscode.CodeActionKind.Refactor)) {
+                    addDeclaration.kind = vscode.CodeActionKind.QuickFix;
+                    addDeclaration.isPreferred = true;
+                    addDeclaration.diagnostics = [diagnostic];
+                }
             } else {
                 addDeclaration.setTitle(addDeclarationTitle.currentFile);
                 addDeclaration.setArguments(definition, sourceDoc, sourceDoc.uri);
@@ -471,6 +665,30 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
         return addDeclaration;
     }
 
+    private async getAddMissingDeclarationsQuickFix(
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        if (context.only?.contains(vscode.CodeActionKind.Refactor)
+                || !findMissingDeclarationDiagnostic(context.diagnostics, symbol)) {
+            return;
+        }
+
+        const diagnostics = vscode.languages.getDiagnostics(sourceDoc.uri).filter(isMissingDeclarationDiagnostic);
+        if (diagnostics.length < 2) {
+            return;
+        }
+
+        const addMissingDeclarations = new RefactorAction(
+                addDeclarationTitle.missingDeclarations, 'cmantic.addMissingDeclarations');
+        addMissingDeclarations.setArguments(sourceDoc);
+        addMissingDeclarations.kind = vscode.CodeActionKind.QuickFix;
+        addMissingDeclarations.diagnostics = diagnostics;
+
+        return addMissingDeclarations;
+    }
+
     private async getMoveDefinitionRefactorings(
         rangeOrSelection: vscode.Range | vscode.Selection,
         context: vscode.CodeActionContext,
@@ -583,11 +801,20 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
 
         moveDefinitionToMatchingSourceFile.setArguments(definition, matchingUri, declaration);
 
+        const moveDefinitionActions = [moveDefinitionToMatchingSourceFile];
         if (sourceDoc.languageId === 'cpp') {
-            return [moveDefinitionToMatchingSourceFile, moveDefinitionIntoOrOutOfClass];
-        } else {
-            return [moveDefinitionToMatchingSourceFile];
+            moveDefinitionActions.push(moveDefinitionIntoOrOutOfClass);
+        }
+
+        // Choosing a file is more involved than the other actions, so it is only offered in the Refactor menu.
+        if (context.only?.contains(vscode.CodeActionKind.Refactor)) {
+            const moveDefinitionToFile = new RefactorAction(
+                    moveDefinitionTitle.chosenFile, 'cmantic.moveDefinitionToFile');
+            moveDefinitionToFile.setArguments(definition, declaration);
+            moveDefinitionActions.push(moveDefinitionToFile);
         }
+
+        return moveDefinitionActions;
     }
 
     private async getGetterSetterRefactorings(
@@ -647,18 +874,161 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
         }
         const titleSnippet = ` for "${classSymbol.name}"`;
 
+        const generateConstructor = new RefactorAction(
+                constructorTitle.generateConstructor + titleSnippet, 'cmantic.generateConstructor');
+        const generateSpecialMembers = new RefactorAction(
+                specialMembersTitle.specialMembers + titleSnippet, 'cmantic.generateSpecialMembers');
         const generateEqualityOperators = new RefactorAction(
                 operatorTitle.equality + titleSnippet, 'cmantic.generateEqualityOperators');
         const generateRelationalOperators = new RefactorAction(
                 operatorTitle.relational + titleSnippet, 'cmantic.generateRelationalOperators');
+        const generateThreeWayComparison = new RefactorAction(
+                operatorTitle.threeWayComparison + titleSnippet, 'cmantic.generateThreeWayComparison');
+        const generateArithmeticOperators = new RefactorAction(
+                operatorTitle.arithmetic + titleSnippet, 'cmantic.generateArithmeticOperators');
         const generateStreamOutputOperator = new RefactorAction(
                 operatorTitle.streamOutput + titleSnippet, 'cmantic.generateStreamOutputOperator');
-
+        const generateStreamInputOperator = new RefactorAction(
+                operatorTitle.streamInput + titleSnippet, 'cmantic.generateStreamInputOperator');
+        const generateSwap = new RefactorAction(swapTitle.swap + titleSnippet, 'cmantic.generateSwap');
+        const generateHashSpecialization = new RefactorAction(
+                hashTitle.hashSpecialization + titleSnippet, 'cmantic.generateHashSpecialization');
+        const moveDefinitionsOutOfClass = new RefactorAction(
+                moveDefinitionTitle.allOutOfClass + titleSnippet, 'cmantic.moveDefinitionsOutOfClass');
+        const extractClass = new RefactorAction(extractClassTitle.extractClass + titleSnippet, 'cmantic.extractClass');
+
+        generateConstructor.setArguments(classSymbol, sourceDoc);
+        generateSpecialMembers.setArguments(classSymbol, sourceDoc);
         generateEqualityOperators.setArguments(classSymbol, sourceDoc);
         generateRelationalOperators.setArguments(classSymbol, sourceDoc);
+        generateThreeWayComparison.setArguments(classSymbol, sourceDoc);
+        generateArithmeticOperators.setArguments(classSymbol, sourceDoc);
         generateStreamOutputOperator.setArguments(classSymbol, sourceDoc);
+        generateStreamInputOperator.setArguments(classSymbol, sourceDoc);
+        generateSwap.setArguments(classSymbol, sourceDoc);
+        generateHashSpecialization.setArguments(classSymbol, sourceDoc);
+        moveDefinitionsOutOfClass.setArguments(classSymbol, sourceDoc);
+        extractClass.setArguments(classSymbol, sourceDoc);
+
+        const classRefactorings = [
+            generateConstructor,
+            generateSpecialMembers,
+            generateEqualityOperators,
+            generateRelationalOperators,
+            generateThreeWayComparison,
+            generateArithmeticOperators,
+            generateStreamOutputOperator,
+            generateStreamInputOperator,
+            generateSwap,
+            generateHashSpecialization,
+            moveDefinitionsOutOfClass
+        ];
+
+        if (!classSymbol.scopes().some(scope => scope.isClassType())) {
+            classRefactorings.push(extractClass);
+        }
+
+        if (classSymbol.baseClasses().length > 0) {
+            const overrideVirtualFunctions = new RefactorAction(
+                    overrideTitle.overrideVirtualFunctions + titleSnippet, 'cmantic.overrideVirtualFunctions');
+            overrideVirtualFunctions.setArguments(classSymbol, sourceDoc);
+            classRefactorings.splice(2, 0, overrideVirtualFunctions);
+        }
+
+        return classRefactorings;
+    }
+
+    private async getEnumRefactorings(
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        if (!this.shouldProvideEnumRefactorings(context, symbol)) {
+            return;
+        }
+
+        const enumSymbol = symbol.isEnum() ? symbol : symbol.parent;
+        if (!enumSymbol || enumSymbol.isAnonymous()) {
+            return;
+        }
+
+        const generateEnumToString = new RefactorAction(
+                `${enumToStringTitle.enumToString} for "${enumSymbol.name}"`, 'cmantic.generateEnumToString');
+        generateEnumToString.setArguments(enumSymbol, sourceDoc);
+
+        return generateEnumToString;
+    }
+
+    private async getAddMissingCaseLabelsRefactoring(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        if (symbol.document.languageId !== 'cpp' || !symbol.isFunctionDefinition()) {
+            return;
+        }
+
+        const switchStatement = findSwitchStatement(symbol, rangeOrSelection.start);
+        if (!switchStatement?.headerRange.contains(rangeOrSelection.start)) {
+            return;
+        }
+
+        // Switch statements on integers and the like are common, so the action is only offered for enums.
+        const enumSymbol = await resolveEnum(switchStatement, sourceDoc);
+        if (!enumSymbol || findMissingEnumerators(switchStatement, enumSymbol).length === 0) {
+            return;
+        }
+
+        const addMissingCaseLabels = new RefactorAction(
+                caseLabelsTitle.addMissingCaseLabels, 'cmantic.addMissingCaseLabels');
+        addMissingCaseLabels.setArguments(sourceDoc, rangeOrSelection.start);
+
+        if (!context.only?.contains(vscode.CodeActionKind.Refactor)) {
+            addMissingCaseLabels.kind = vscode.CodeActionKind.QuickFix;
+            addMissingCaseLabels.diagnostics = [...context.diagnostics];
+        }
+
+        return addMissingCaseLabels;
+    }
+
+    private async getExtractFunctionRefactoring(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        if (rangeOrSelection.isEmpty || !symbol.isFunctionDefinition()
+                || !isWithinFunctionBody(symbol, rangeOrSelection)
+                || (!this.extractFunctionEnabled && !context.only?.contains(vscode.CodeActionKind.Refactor))) {
+            return;
+        }
 
-        return [generateEqualityOperators, generateRelationalOperators, generateStreamOutputOperator];
+        const extractFunction = new RefactorAction(extractFunctionTitle.extractFunction, 'cmantic.extractFunction');
+        extractFunction.setArguments(sourceDoc, rangeOrSelection);
+
+        return extractFunction;
+    }
+
+    private async getInlineFunctionRefactoring(
+        rangeOrSelection: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        symbol: CSymbol,
+        sourceDoc: SourceDocument
+    ): Promise<RefactorAction | undefined> {
+        if (!context.only?.contains(vscode.CodeActionKind.Refactor) || !symbol.isFunctionDefinition()) {
+            return;
+        }
+
+        const functionCall = findFunctionCall(symbol, rangeOrSelection.start);
+        if (!functionCall || functionCall.isMemberAccess) {
+            return;
+        }
+
+        const inlineFunction = new RefactorAction(inlineFunctionTitle.inlineFunction, 'cmantic.inlineFunction');
+        inlineFunction.setArguments(sourceDoc, rangeOrSelection.start);
+
+        return inlineFunction;
     }
 
     private async getFileRefactorings(
@@ -673,7 +1043,23 @@ export class CodeActionProvider extends vscode.Disposable implements vscode.Code
         const addDefinitions = new RefactorAction(addDefinitionTitle.multiple, 'cmantic.addDefinitions');
         addDefinitions.setArguments(sourceDoc, matchingUri);
 
-        return [addDefinitions];
+        const fileRefactorings = [addDefinitions];
+
+        if (!sourceDoc.isHeader()) {
+            const addMissingDeclarations = new RefactorAction(
+                    addDeclarationTitle.missingDeclarations, 'cmantic.addMissingDeclarations');
+            addMissingDeclarations.setArguments(sourceDoc);
+            fileRefactorings.push(addMissingDeclarations);
+        }
+
+        if (sourceDoc.languageId === 'cpp') {
+            const convertReturnTypes = new RefactorAction(
+                    convertReturnTypeTitle.inFile, 'cmantic.convertReturnTypesInFile');
+            convertReturnTypes.setArguments(sourceDoc);
+            fileRefactorings.push(convertReturnTypes);
+        }
+
+        return fileRefactorings;
     }
 
     private async getSourceActions(
@@ -745,3 +1131,15 @@ function declarationRange(symbol: CSymbol): vscode.Range {
     return new vscode.Range(
             symbol.declarationStart(), symbol.document.positionAt(startOffset + nameEndIndex + initializerIndex));
 }
+
+function isMissingDeclarationDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+    return diagnostic.source === DeclarationDiagnostics.source
+        && diagnostic.code === DeclarationDiagnostics.missingDeclarationCode;
+}
+
+function findMissingDeclarationDiagnostic(
+    diagnostics: readonly vscode.Diagnostic[], symbol: CSymbol
+): vscode.Diagnostic | undefined {
+    return diagnostics.find(diagnostic =>
+            isMissingDeclarationDiagnostic(diagnostic) && symbol.selectionRange.intersection(diagnostic.range));
+}
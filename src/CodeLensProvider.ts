@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as cfg from './configuration';
+import * as util from './utility';
+import SourceDocument from './SourceDocument';
+import SourceFile from './SourceFile';
+import CSymbol from './CSymbol';
+import { getMatchingHeaderSource } from './extension';
+
+
+/**
+ * A CodeLens for a function declaration in a header (which shows where the function is defined), or for a function
+ * definition in a source file (which shows where the function is declared). The command is resolved lazily, since
+ * finding the linked function requires a request to the language server.
+ */
+class FunctionCodeLens extends vscode.CodeLens {
+    readonly functionSymbol: CSymbol;
+
+    constructor(functionSymbol: CSymbol) {
+        super(new vscode.Range(functionSymbol.range.start, functionSymbol.range.start));
+        this.functionSymbol = functionSymbol;
+    }
+
+    setCommand(command?: vscode.Command): void {
+        this.command = command;
+    }
+}
+
+export class CodeLensProvider extends vscode.Disposable implements vscode.CodeLensProvider {
+    private enabled!: boolean;
+    private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[];
+
+    readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+
+    constructor() {
+        super(() => this.disposables.forEach(disposable => disposable.dispose()));
+
+        this.updateEnabled();
+
+        this.disposables = [
+            this.onDidChangeCodeLensesEmitter,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(cfg.cmanticKey)) {
+                    this.updateEnabled();
+                    this.onDidChangeCodeLensesEmitter.fire();
+                }
+            }),
+            // Saving a file may add or remove the functions that are linked to the functions of other files.
+            vscode.workspace.onDidSaveTextDocument(() => this.onDidChangeCodeLensesEmitter.fire())
+        ];
+    }
+
+    updateEnabled(): void {
+        this.enabled = cfg.declarationDefinitionCodeLensEnabled();
+    }
+
+    async provideCodeLenses(
+        document: vscode.TextDocument,
+        token?: vscode.CancellationToken
+    ): Promise<FunctionCodeLens[]> {
+        if (!this.enabled) {
+            return [];
+        }
+
+        const sourceDoc = new SourceDocument(document);
+        const functions = await sourceDoc.allFunctions();
+        if (token?.isCancellationRequested) {
+            return [];
+        }
+
+        if (sourceDoc.isHeader()) {
+            return functions.filter(functionSymbol => functionSymbol.isFunctionDeclaration())
+                    .map(declaration => new FunctionCodeLens(declaration));
+        }
+
+        return functions.filter(functionSymbol => functionSymbol.isFunctionDefinition()
+                && !functionSymbol.parent?.isClassType() && mightHaveDeclaration(functionSymbol))
+                .map(definition => new FunctionCodeLens(definition));
+    }
+
+    async resolveCodeLens(
+        codeLens: FunctionCodeLens,
+        token?: vscode.CancellationToken
+    ): Promise<FunctionCodeLens> {
+        const command = await resolveCommand(codeLens.functionSymbol, token);
+        codeLens.setCommand(command);
+        return codeLens;
+    }
+}
+
+async function resolveCommand(
+    functionSymbol: CSymbol,
+    token?: vscode.CancellationToken
+): Promise<vscode.Command | undefined> {
+    const [command, matchingUri] = await Promise.all([
+        functionSymbol.isFunctionDeclaration()
+            ? resolveDeclarationCommand(functionSymbol)
+            : resolveDefinitionCommand(functionSymbol),
+        getMatchingHeaderSource(functionSymbol.uri)
+    ]);
+
+    if (command || token?.isCancellationRequested) {
+        return command;
+    }
+
+    return functionSymbol.isFunctionDeclaration()
+        ? addDefinitionCommand(functionSymbol, matchingUri)
+        : addDeclarationCommand(functionSymbol, matchingUri);
+}
+
+/**
+ * Functions with internal linkage, and main, are not expected to be declared elsewhere.
+ */
+function mightHaveDeclaration(definition: CSymbol): boolean {
+    return definition.immediateScope() !== undefined
+        || (definition.name !== 'main' && !definition.isStatic()
+            && !definition.scopes().some(scope => scope.isNamespace() && scope.isAnonymous()));
+}
+
+async function resolveDeclarationCommand(declaration: CSymbol): Promise<vscode.Command | undefined> {
+    const link = await util.makeDeclDefLink(declaration);
+    if (link.definition) {
+        return openLocationCommand('defined in', link.definition);
+    }
+
+    // makeDeclDefLink() only finds definitions in files with the same base name.
+    const definitionResults = await vscode.commands.executeCommand<util.LocationType[]>(
+            'vscode.executeDefinitionProvider', declaration.uri, declaration.selectionRange.start);
+    const location = util.makeLocationArray(definitionResults).find(location => util.containedInWorkspace(location)
+            && !(location.uri.fsPath === declaration.uri.fsPath && declaration.range.contains(location.range)));
+    if (location) {
+        return openLocationCommand('defined in', location);
+    }
+}
+
+async function resolveDefinitionCommand(definition: CSymbol): Promise<vscode.Command | undefined> {
+    const declaration = await definition.findDeclaration();
+    if (declaration) {
+        return openLocationCommand('declared in', declaration);
+    }
+
+    // findDeclaration() only returns declarations in files with the same base name.
+    const declarationResults = await vscode.commands.executeCommand<util.LocationType[]>(
+            'vscode.executeDeclarationProvider', definition.uri, definition.selectionRange.start);
+    const location = util.makeLocationArray(declarationResults).find(location => util.containedInWorkspace(location)
+            && !(location.uri.fsPath === definition.uri.fsPath && definition.range.contains(location.range)));
+    if (location) {
+        return openLocationCommand('declared in', location);
+    }
+}
+
+function openLocationCommand(prefix: string, location: vscode.Location): vscode.Command {
+    const options: vscode.TextDocumentShowOptions = {
+        selection: new vscode.Range(location.range.start, location.range.start)
+    };
+
+    return {
+        title: `${prefix} ${path.basename(location.uri.fsPath)}:${location.range.start.line + 1}`,
+        command: 'vscode.open',
+        arguments: [location.uri, options]
+    };
+}
+
+function addDefinitionCommand(declaration: CSymbol, matchingUri?: vscode.Uri): vscode.Command {
+    const targetUri = (matchingUri && !SourceFile.isHeader(matchingUri) && !util.requiresVisibleDefinition(declaration))
+            ? matchingUri
+            : declaration.uri;
+
+    return {
+        title: 'no definition — Add Definition',
+        command: 'cmantic.addDefinition',
+        arguments: [declaration, declaration.document, targetUri, true]
+    };
+}
+
+async function addDeclarationCommand(definition: CSymbol, matchingUri?: vscode.Uri): Promise<vscode.Command> {
+    const parentClass = await definition.getParentClass();
+    const targetUri = parentClass?.uri
+            ?? ((matchingUri && SourceFile.isHeader(matchingUri)) ? matchingUri : definition.uri);
+
+    return {
+        title: 'no declaration — Add Declaration',
+        command: 'cmantic.addDeclaration',
+        arguments: [definition, definition.document, targetUri]
+    };
+}
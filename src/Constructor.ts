@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as cfg from './configuration';
+import * as util from './utility';
+import SourceDocument from './SourceDocument';
+import CSymbol from './CSymbol';
+import SubSymbol from './SubSymbol';
+import { parameterTypeFor } from './Accessor';
+
+
+export type Initializer = CSymbol | SubSymbol;
+
+export interface MemberInitializer {
+    name: string;
+    argument: string;
+}
+
+/**
+ * Represents a new constructor that initializes the selected base classes and member variables of a class.
+ */
+export class Constructor {
+    readonly parent: CSymbol;
+    readonly name: string;
+    parameters: string;
+    parameterTypes: string[];
+    private readonly memberInitializers: MemberInitializer[];
+
+    /**
+     * This builder method is necessary since CSymbol.isPrimitive() is asynchronous.
+     */
+    static async create(parent: CSymbol, initializers: Initializer[]): Promise<Constructor> {
+        const ctor = new Constructor(parent);
+
+        const memberVariables = initializers.filter(initializer => initializer instanceof CSymbol) as CSymbol[];
+        const parameterTypes = await Promise.all(memberVariables.map(memberVariable => parameterTypeFor(memberVariable)));
+
+        const parameters: string[] = [];
+        initializers.forEach(initializer => {
+            if (initializer instanceof SubSymbol) {
+                ctor.memberInitializers.push({ name: initializer.name, argument: '' });
+            } else {
+                const parameterName = parameterNameFor(initializer);
+                const parameterType = parameterTypes[memberVariables.indexOf(initializer)];
+                ctor.parameterTypes.push(parameterType);
+                parameters.push(parameterType + parameterName);
+                ctor.memberInitializers.push({ name: initializer.name, argument: parameterName });
+            }
+        });
+        ctor.parameters = parameters.join(', ');
+
+        return ctor;
+    }
+
+    private constructor(parent: CSymbol) {
+        this.parent = parent;
+        this.name = parent.name;
+        this.parameters = '';
+        this.parameterTypes = [];
+        this.memberInitializers = [];
+    }
+
+    /**
+     * Single-argument constructors are declared explicit to prevent implicit conversions.
+     */
+    get isExplicit(): boolean {
+        return this.parameterTypes.length === 1;
+    }
+
+    get declaration(): string {
+        return (this.isExplicit ? 'explicit ' : '') + this.name + '(' + this.parameters + ')';
+    }
+
+    async definition(target: SourceDocument, position: vscode.Position, curlySeparator: string): Promise<string> {
+        const eol = target.endOfLine;
+        const body = curlySeparator + '{' + eol + util.indentation() + eol + '}';
+
+        if (this.parent.document.fileName === target.fileName
+                && util.containsExclusive(this.parent.range, position)) {
+            return this.declaration + this.initializerList(eol) + body;
+        }
+
+        const inlineSpecifier = (this.parent.document.fileName === target.fileName) ? 'inline ' : '';
+        return this.parent.combinedTemplateStatements(true, eol, true) + inlineSpecifier
+                + await this.parent.scopeString(target, position) + this.name
+                + '(' + this.parameters + ')' + this.initializerList(eol) + body;
+    }
+
+    private initializerList(eol: string): string {
+        return formatInitializerList(this.memberInitializers, eol, this.parent.uri);
+    }
+}
+
+/**
+ * Formats a constructor initializer list, beginning with a new line. Returns an empty string if there are no
+ * initializers.
+ */
+export function formatInitializerList(
+    memberInitializers: MemberInitializer[], eol: string, scope: vscode.ConfigurationScope
+): string {
+    if (memberInitializers.length === 0) {
+        return '';
+    }
+
+    const indentation = util.indentation();
+    const braced = cfg.bracedInitialization(scope);
+
+    const initializers = memberInitializers.map(initializer => braced
+            ? initializer.name + '{' + initializer.argument + '}'
+            : initializer.name + '(' + initializer.argument + ')');
+
+    return eol + indentation + ': ' + initializers.join(',' + eol + indentation + '  ');
+}
+
+function parameterNameFor(memberVariable: CSymbol): string {
+    const baseName = memberVariable.baseName();
+    if (baseName !== memberVariable.name) {
+        return baseName;
+    }
+
+    const formattedName = cfg.formatToCaseStyle(baseName, memberVariable.uri);
+    return formattedName !== memberVariable.name ? formattedName : formattedName + '_';
+}
@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as cfg from './configuration';
+import * as util from './utility';
+import SourceDocument from './SourceDocument';
+import CSymbol from './CSymbol';
+import FunctionSignature from './FunctionSignature';
+import { findDefinitionsWithoutDeclarations } from './commands/addDeclaration';
+import { getMatchingHeaderSource, logger } from './extension';
+
+
+interface SignatureMismatch {
+    declaration: CSymbol;
+    definition: CSymbol;
+    differences: string[];
+}
+
+/**
+ * Reports function declarations and definitions (in a header and its matching source file) whose signatures do not
+ * match, and function definitions in source files whose declarations cannot be found. Documents are checked when they
+ * are saved, and when they are first shown in an editor.
+ */
+export class DeclarationDiagnostics extends vscode.Disposable {
+    static readonly source = 'C-mantic';
+    static readonly signatureMismatchCode = 'signatureMismatch';
+    static readonly missingDeclarationCode = 'missingDeclaration';
+
+    private signatureMismatchEnabled!: boolean;
+    private missingDeclarationEnabled!: boolean;
+    private readonly checkedUris = new Set<string>();
+    private readonly diagnosticCollection = vscode.languages.createDiagnosticCollection('cmantic');
+    private readonly disposables: vscode.Disposable[];
+
+    constructor() {
+        super(() => this.disposables.forEach(disposable => disposable.dispose()));
+
+        this.updateEnabled();
+
+        this.disposables = [
+            this.diagnosticCollection,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(cfg.diagnosticsKey)) {
+                    this.updateEnabled();
+                    this.updateActiveDocument();
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor && !this.checkedUris.has(editor.document.uri.toString())) {
+                    this.updateAndLogErrors(editor.document);
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => this.updateAndLogErrors(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.removeChangedDiagnostics(event)),
+            vscode.workspace.onDidCloseTextDocument(document => this.checkedUris.delete(document.uri.toString()))
+        ];
+    }
+
+    /**
+     * Documents are checked again once they are shown, since the diagnostics that are reported may have changed.
+     */
+    updateEnabled(): void {
+        this.signatureMismatchEnabled = cfg.signatureMismatchDiagnosticsEnabled();
+        this.missingDeclarationEnabled = cfg.missingDeclarationDiagnosticsEnabled();
+        this.checkedUris.clear();
+        this.diagnosticCollection.clear();
+    }
+
+    /**
+     * Checks the document of the active editor, which is already shown by the time the extension activates.
+     */
+    updateActiveDocument(): void {
+        if (vscode.window.activeTextEditor) {
+            this.updateAndLogErrors(vscode.window.activeTextEditor.document);
+        }
+    }
+
+    private updateAndLogErrors(document: vscode.TextDocument): void {
+        this.update(document).catch(error => {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.logError(`Failed to check the functions of "${document.uri.fsPath}": ${message}`);
+        });
+    }
+
+    /**
+     * Checks the functions in document and in its matching header/source file, and replaces the diagnostics of both
+     * files.
+     */
+    async update(document: vscode.TextDocument): Promise<void> {
+        if ((!this.signatureMismatchEnabled && !this.missingDeclarationEnabled) || document.uri.scheme !== 'file'
+                || (document.languageId !== 'c' && document.languageId !== 'cpp')) {
+            return;
+        }
+        this.checkedUris.add(document.uri.toString());
+
+        const sourceDoc = new SourceDocument(document);
+        const matchingUri = await getMatchingHeaderSource(sourceDoc.uri);
+        const sourceDocs = matchingUri ? [sourceDoc, await SourceDocument.open(matchingUri)] : [sourceDoc];
+
+        const diagnostics = new Map<string, vscode.Diagnostic[]>();
+        sourceDocs.forEach(doc => diagnostics.set(doc.uri.toString(), []));
+
+        if (this.signatureMismatchEnabled) {
+            for (const mismatch of await findSignatureMismatches(sourceDocs)) {
+                const { declaration, definition, differences } = mismatch;
+                diagnostics.get(declaration.uri.toString())?.push(
+                        createMismatchDiagnostic(declaration, definition, 'Declaration', 'definition', differences));
+                diagnostics.get(definition.uri.toString())?.push(
+                        createMismatchDiagnostic(definition, declaration, 'Definition', 'declaration', differences));
+            }
+        }
+
+        if (this.missingDeclarationEnabled) {
+            for (const doc of sourceDocs.filter(doc => !doc.isHeader())) {
+                const docMatchingUri = doc === sourceDoc ? matchingUri : sourceDoc.uri;
+                for (const definition of await findDefinitionsWithoutDeclarations(doc, docMatchingUri)) {
+                    diagnostics.get(doc.uri.toString())?.push(await createMissingDeclarationDiagnostic(definition));
+                }
+            }
+        }
+
+        sourceDocs.forEach(doc => this.diagnosticCollection.set(doc.uri, diagnostics.get(doc.uri.toString())));
+    }
+
+    /**
+     * Diagnostics that intersect an edit are removed, since they may no longer apply. The document is checked
+     * again when it is saved.
+     */
+    private removeChangedDiagnostics(event: vscode.TextDocumentChangeEvent): void {
+        const diagnostics = this.diagnosticCollection.get(event.document.uri);
+        if (!diagnostics || diagnostics.length === 0) {
+            return;
+        }
+
+        const remainingDiagnostics = diagnostics.filter(diagnostic => !event.contentChanges.some(change =>
+                change.range.intersection(diagnostic.range)));
+        if (remainingDiagnostics.length !== diagnostics.length) {
+            this.diagnosticCollection.set(event.document.uri, remainingDiagnostics);
+        }
+    }
+}
+
+async function findSignatureMismatches(sourceDocs: SourceDocument[]): Promise<SignatureMismatch[]> {
+    const functions = await Promise.all(sourceDocs.map(sourceDoc => sourceDoc.allFunctions()));
+    const declarations = functions.flat().filter(functionSymbol => functionSymbol.isFunctionDeclaration());
+
+    const mismatches: SignatureMismatch[] = [];
+    for (let i = 0; i < declarations.length; i += 10) {
+        const links = await Promise.all(declarations.slice(i, i + 10).map(util.makeDeclDefLink));
+        for (const link of links) {
+            const definitionDoc = sourceDocs.find(sourceDoc => sourceDoc.uri.fsPath === link.definition?.uri.fsPath);
+            if (!link.definition || !definitionDoc) {
+                continue;
+            }
+
+            const definition = await definitionDoc.getSymbol(link.definition.range.start);
+            if (!definition?.isFunctionDefinition() || definition.name !== link.declaration.name) {
+                continue;
+            }
+
+            const declarationSig = new FunctionSignature(link.declaration);
+            const definitionSig = new FunctionSignature(definition);
+            const differences = !declarationSig.isEqual(definitionSig)
+                    ? describeDifferences(declarationSig, definitionSig)
+                    : [];
+            if (differences.length > 0) {
+                mismatches.push({ declaration: link.declaration, definition: definition, differences: differences });
+            }
+        }
+    }
+
+    return mismatches;
+}
+
+/**
+ * Types in an out-of-class definition are often qualified where they are not in the declaration (or vice versa), so
+ * scope qualifiers are ignored when comparing types.
+ */
+function describeDifferences(declarationSig: FunctionSignature, definitionSig: FunctionSignature): string[] {
+    const differences: string[] = [];
+
+    if (!util.arraysAreEqual(declarationSig.parameters, definitionSig.parameters,
+            (a, b) => removeScopes(a.normalizedType) === removeScopes(b.normalizedType))) {
+        differences.push('parameters');
+    }
+    if (removeScopes(declarationSig.normalizedReturnType) !== removeScopes(definitionSig.normalizedReturnType)) {
+        differences.push('return type');
+    }
+    if (declarationSig.isConst !== definitionSig.isConst) {
+        differences.push('const');
+    }
+    if (declarationSig.isVolatile !== definitionSig.isVolatile) {
+        differences.push('volatile');
+    }
+    if (declarationSig.refQualifier !== definitionSig.refQualifier) {
+        differences.push('ref-qualifier');
+    }
+    if (declarationSig.normalizedNoexcept !== definitionSig.normalizedNoexcept) {
+        differences.push('noexcept');
+    }
+
+    return differences;
+}
+
+function removeScopes(type: string): string {
+    return type.replace(/(\b[\w_][\w\d_]*\s*(<[^<>]*>)?\s*)?::\s*/g, '');
+}
+
+function createMismatchDiagnostic(
+    functionSymbol: CSymbol,
+    linkedFunction: CSymbol,
+    kind: 'Declaration' | 'Definition',
+    linkedKind: 'declaration' | 'definition',
+    differences: string[]
+): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+            functionSymbol.selectionRange,
+            `${kind} of "${functionSymbol.name}" does not match its ${linkedKind} (${differences.join(', ')}).`,
+            vscode.DiagnosticSeverity.Warning);
+    diagnostic.source = DeclarationDiagnostics.source;
+    diagnostic.code = DeclarationDiagnostics.signatureMismatchCode;
+    diagnostic.relatedInformation = [
+        new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(linkedFunction.uri, linkedFunction.selectionRange),
+                `The ${linkedKind} of "${linkedFunction.name}"`)
+    ];
+    return diagnostic;
+}
+
+async function createMissingDeclarationDiagnostic(definition: CSymbol): Promise<vscode.Diagnostic> {
+    const parentClass = await definition.getParentClass();
+    const message = parentClass
+            ? `No declaration of "${definition.name}" was found in "${parentClass.templatedName()}".`
+            : `No declaration of "${definition.name}" was found in a header file.`;
+
+    const diagnostic = new vscode.Diagnostic(definition.selectionRange, message, vscode.DiagnosticSeverity.Warning);
+    diagnostic.source = DeclarationDiagnostics.source;
+    diagnostic.code = DeclarationDiagnostics.missingDeclarationCode;
+    return diagnostic;
+}
@@ -1,9 +1,11 @@
 import * as vscode from 'vscode';
 import * as cfg from './configuration';
 import * as util from './utility';
+import * as parse from './parsing';
 import SourceDocument from './SourceDocument';
 import CSymbol from './CSymbol';
 import SubSymbol from './SubSymbol';
+import { formatInitializerList } from './Constructor';
 
 
 export type Operand = CSymbol | SubSymbol;
@@ -15,32 +17,40 @@ export abstract class Operator {
     abstract returnType: string;
     abstract parameters: string;
     body: string;
+    initializerList: string;
 
     constructor(parent: CSymbol) {
         this.parent = parent;
         this.body = '';
+        this.initializerList = '';
+    }
+
+    /**
+     * The specifiers that follow the parameter list, such as const or noexcept.
+     */
+    get trailingSpecifiers(): string {
+        return this.isFriend ? '' : ' const';
     }
 
     get declaration(): string {
         return (this.isFriend ? 'friend ' : '') + this.returnType + this.name
-                + '(' + this.parameters + ')' + (this.isFriend ? '' : ' const');
+                + '(' + this.parameters + ')' + this.trailingSpecifiers;
     }
 
     async definition(target: SourceDocument, position: vscode.Position, curlySeparator: string): Promise<string> {
         const eol = target.endOfLine;
-        const friendSpecifier =
-            this.isFriend && (util.containsExclusive(this.parent.range, position)
-            && this.parent.document.fileName === target.fileName)
-                ? 'friend '
-                : '';
+        const isInsideClass = util.containsExclusive(this.parent.range, position)
+                && this.parent.document.fileName === target.fileName;
+        const friendSpecifier = this.isFriend && isInsideClass ? 'friend ' : '';
         const inlineSpecifier =
             (!util.containsExclusive(this.parent.range, position)
             && this.parent.document.fileName === target.fileName)
                 ? 'inline '
                 : '';
-        return this.parent.combinedTemplateStatements(true, eol, !this.isFriend) + friendSpecifier
-                + inlineSpecifier + this.returnType + await this.parent.scopeString(target, position, this.isFriend)
-                + this.name + '(' + this.parameters + ')' + (this.isFriend ? '' : ' const') + curlySeparator + '{'
+        const templateStatements = isInsideClass ? '' : this.parent.combinedTemplateStatements(true, eol, !this.isFriend);
+        return templateStatements + friendSpecifier + inlineSpecifier + this.returnType
+                + await this.parent.scopeString(target, position, this.isFriend) + this.name
+                + '(' + this.parameters + ')' + this.trailingSpecifiers + this.initializerList + curlySeparator + '{'
                 + eol + util.indentation() + this.body + eol + '}';
     }
 }
@@ -185,6 +195,89 @@ export class GreaterThanOrEqualOperator extends ComparisonOperator {
     }
 }
 
+export class ThreeWayComparisonOperator extends ComparisonOperator {
+    returnType: string = 'auto ';
+
+    constructor(parent: CSymbol, operands?: Operand[]) {
+        super(parent, 'operator<=>');
+        if (operands) {
+            this.setOperands(operands);
+        }
+    }
+
+    /**
+     * A defaulted operator<=> may deduce its return type, but a member-wise definition cannot, since the members may
+     * have different comparison categories. The return type is set according to operands.
+     */
+    setOperands(operands: Operand[]): void {
+        this.body = '';
+        if (operands.length === 0) {
+            this.returnType = 'std::strong_ordering ';
+            this.body = 'return std::strong_ordering::equal;';
+            return;
+        }
+
+        this.returnType = comparisonCategory(operands) + ' ';
+
+        const eol = this.parent.document.endOfLine;
+        const indent = util.indentation();
+        const lhs = cfg.useExplicitThisPointer(this.parent.uri) && !this.isFriend
+                ? 'this->' : (this.isFriend ? 'lhs.' : '');
+        const lhsCast = this.isFriend ? '(lhs)' : '(*this)';
+        const rhs = this.isFriend ? 'rhs.' : 'other.';
+        const rhsCast = this.isFriend ? '(rhs)' : '(other)';
+        const returnCmp = eol + indent + indent + 'return cmp;' + eol + indent;
+
+        const lastOperand = operands[operands.length - 1];
+        operands.slice(0, -1).forEach(operand => {
+            if (operand instanceof SubSymbol) {
+                const cast = `static_cast<const ${operand.name} &>`;
+                this.body += `if (auto cmp = ${cast + lhsCast} <=> ${cast + rhsCast}; cmp != 0)${returnCmp}`;
+            } else {
+                this.body += `if (auto cmp = ${lhs + operand.name} <=> ${rhs + operand.name}; cmp != 0)${returnCmp}`;
+            }
+        });
+
+        if (lastOperand instanceof SubSymbol) {
+            const cast = `static_cast<const ${lastOperand.name} &>`;
+            this.body += `return ${cast + lhsCast} <=> ${cast + rhsCast};`;
+        } else {
+            this.body += `return ${lhs + lastOperand.name} <=> ${rhs + lastOperand.name};`;
+        }
+    }
+}
+
+/**
+ * Returns the comparison category type that is common to all operands. The categories of pointers and arithmetic
+ * types are known, otherwise the category is left for the compiler to determine with compare_three_way_result_t.
+ */
+function comparisonCategory(operands: Operand[]): string {
+    const categories = new Set<string>();
+    operands.forEach(operand => {
+        if (operand instanceof SubSymbol) {
+            categories.add(`std::compare_three_way_result_t<${operand.name}>`);
+        } else if (operand.isPointer()) {
+            categories.add('std::strong_ordering');
+        } else {
+            const type = operand.parsableLeadingText.replace(/\b(static|mutable|inline)\s*/g, '')
+                    .replace(/\s+/g, ' ').replace(/\s*&$/, '').trim();
+            if (parse.matchesPrimitiveType(type)) {
+                categories.add(/\b(float|double)\b/.test(type) ? 'std::partial_ordering' : 'std::strong_ordering');
+            } else {
+                categories.add(`std::compare_three_way_result_t<${type}>`);
+            }
+        }
+    });
+
+    if (categories.has('std::partial_ordering')) {
+        categories.delete('std::strong_ordering');
+    }
+
+    return categories.size === 1
+        ? [...categories][0]
+        : `std::common_comparison_category_t<${[...categories].join(', ')}>`;
+}
+
 export class StreamOutputOperator extends Operator {
     isFriend: boolean = true;
     name: string;
@@ -224,3 +317,284 @@ export class StreamOutputOperator extends Operator {
         this.body = `os ${this.body.trimEnd()};${eol + indent}return os;`;
     }
 }
+
+export class StreamInputOperator extends Operator {
+    isFriend: boolean = true;
+    name: string;
+    returnType: string = 'std::istream &';
+    parameters: string;
+
+    constructor(parent: CSymbol, operands?: Operand[]) {
+        super(parent);
+        this.name = 'operator>>';
+        this.parameters = `${this.returnType}is, ${parent.templatedName()} &rhs`;
+        if (operands) {
+            this.setOperands(operands);
+        }
+    }
+
+    setOperands(operands: Operand[]): void {
+        this.body = '';
+        if (operands.length === 0) {
+            this.body += 'return is;';
+            return;
+        }
+
+        const eol = this.parent.document.endOfLine;
+        const indent = util.indentation();
+        const alignment = indent.includes(' ') ? '   ' : indent;
+
+        operands.forEach(operand => {
+            if (operand instanceof SubSymbol) {
+                this.body += `>> static_cast<${operand.name} &>(rhs)${eol + indent + alignment}`;
+            } else {
+                this.body += `>> rhs.${operand.name + eol + indent + alignment}`;
+            }
+        });
+
+        this.body = `is ${this.body.trimEnd()};${eol + indent}return is;`;
+    }
+}
+
+/**
+ * Represents a compound assignment operator such as operator+=, which applies the operation member-wise.
+ */
+export class CompoundAssignmentOperator extends Operator {
+    isFriend: boolean = false;
+    name: string;
+    returnType: string;
+    parameters: string;
+    readonly arithmeticSymbol: string;
+
+    constructor(parent: CSymbol, arithmeticSymbol: string, operands?: Operand[]) {
+        super(parent);
+        this.arithmeticSymbol = arithmeticSymbol;
+        this.name = `operator${arithmeticSymbol}=`;
+        this.returnType = `${parent.templatedName()} &`;
+        this.parameters = `const ${parent.templatedName()} &other`;
+        if (operands) {
+            this.setOperands(operands);
+        }
+    }
+
+    get trailingSpecifiers(): string {
+        return '';
+    }
+
+    setOperands(operands: Operand[]): void {
+        const eol = this.parent.document.endOfLine;
+        const indent = util.indentation();
+        const memberPrefix = cfg.useExplicitThisPointer(this.parent.uri) ? 'this->' : '';
+        const compoundSymbol = this.arithmeticSymbol + '=';
+
+        this.body = '';
+        operands.forEach(operand => {
+            if (operand instanceof SubSymbol) {
+                this.body += `${operand.name}::${this.name}(other);${eol + indent}`;
+            } else {
+                this.body += `${memberPrefix + operand.name} ${compoundSymbol} other.${operand.name};${eol + indent}`;
+            }
+        });
+        this.body += 'return *this;';
+    }
+}
+
+/**
+ * Represents a binary arithmetic operator such as operator+, which is implemented in terms of the corresponding
+ * compound assignment operator.
+ */
+export class ArithmeticOperator extends Operator {
+    isFriend: boolean = true;
+    name: string;
+    returnType: string;
+    parameters: string;
+
+    constructor(parent: CSymbol, arithmeticSymbol: string) {
+        super(parent);
+        this.name = `operator${arithmeticSymbol}`;
+        this.returnType = `${parent.templatedName()} `;
+        this.parameters = `${parent.templatedName()} lhs, const ${parent.templatedName()} &rhs`;
+        this.body = `lhs ${arithmeticSymbol}= rhs;${parent.document.endOfLine + util.indentation()}return lhs;`;
+    }
+}
+
+/**
+ * Represents a special member function: a destructor, copy/move constructor, or copy/move assignment operator.
+ */
+export abstract class SpecialMemberFunction extends Operator {
+    isFriend: boolean = false;
+    isNoexcept: boolean = false;
+
+    get trailingSpecifiers(): string {
+        return this.isNoexcept ? ' noexcept' : '';
+    }
+}
+
+export class Destructor extends SpecialMemberFunction {
+    name: string;
+    returnType: string = '';
+    parameters: string = '';
+
+    constructor(parent: CSymbol) {
+        super(parent);
+        this.name = '~' + parent.name;
+    }
+}
+
+export class CopyConstructor extends SpecialMemberFunction {
+    name: string;
+    returnType: string = '';
+    parameters: string;
+
+    constructor(parent: CSymbol, operands?: Operand[]) {
+        super(parent);
+        this.name = parent.name;
+        this.parameters = `const ${parent.templatedName()} &other`;
+        if (operands) {
+            this.setOperands(operands);
+        }
+    }
+
+    setOperands(operands: Operand[]): void {
+        this.initializerList = formatInitializerList(operands.map(operand => {
+            return operand instanceof SubSymbol
+                ? { name: operand.name, argument: 'other' }
+                : { name: operand.name, argument: 'other.' + operand.name };
+        }), this.parent.document.endOfLine, this.parent.uri);
+    }
+}
+
+export class MoveConstructor extends SpecialMemberFunction {
+    name: string;
+    returnType: string = '';
+    parameters: string;
+
+    constructor(parent: CSymbol, operands?: Operand[]) {
+        super(parent);
+        this.name = parent.name;
+        this.parameters = `${parent.templatedName()} &&other`;
+        this.isNoexcept = true;
+        if (operands) {
+            this.setOperands(operands);
+        }
+    }
+
+    setOperands(operands: Operand[]): void {
+        this.initializerList = formatInitializerList(operands.map(operand => {
+            return operand instanceof SubSymbol
+                ? { name: operand.name, argument: 'std::move(other)' }
+                : { name: operand.name, argument: `std::move(other.${operand.name})` };
+        }), this.parent.document.endOfLine, this.parent.uri);
+    }
+}
+
+export class CopyAssignmentOperator extends SpecialMemberFunction {
+    name: string = 'operator=';
+    returnType: string;
+    parameters: string;
+
+    constructor(parent: CSymbol, operands?: Operand[]) {
+        super(parent);
+        this.returnType = `${parent.templatedName()} &`;
+        this.parameters = `const ${parent.templatedName()} &other`;
+        if (operands) {
+            this.setOperands(operands);
+        }
+    }
+
+    setOperands(operands: Operand[]): void {
+        const eol = this.parent.document.endOfLine;
+        const indent = util.indentation();
+        const memberPrefix = cfg.useExplicitThisPointer(this.parent.uri) ? 'this->' : '';
+
+        this.body = '';
+        operands.forEach(operand => {
+            if (operand instanceof SubSymbol) {
+                this.body += `${operand.name}::operator=(other);${eol + indent}`;
+            } else {
+                this.body += `${memberPrefix + operand.name} = other.${operand.name};${eol + indent}`;
+            }
+        });
+        this.body += 'return *this;';
+    }
+}
+
+export class MoveAssignmentOperator extends SpecialMemberFunction {
+    name: string = 'operator=';
+    returnType: string;
+    parameters: string;
+
+    constructor(parent: CSymbol, operands?: Operand[]) {
+        super(parent);
+        this.returnType = `${parent.templatedName()} &`;
+        this.parameters = `${parent.templatedName()} &&other`;
+        this.isNoexcept = true;
+        if (operands) {
+            this.setOperands(operands);
+        }
+    }
+
+    setOperands(operands: Operand[]): void {
+        const eol = this.parent.document.endOfLine;
+        const indent = util.indentation();
+        const memberPrefix = cfg.useExplicitThisPointer(this.parent.uri) ? 'this->' : '';
+
+        this.body = '';
+        operands.forEach(operand => {
+            if (operand instanceof SubSymbol) {
+                this.body += `${operand.name}::operator=(std::move(other));${eol + indent}`;
+            } else {
+                this.body += `${memberPrefix + operand.name} = std::move(other.${operand.name});${eol + indent}`;
+            }
+        });
+        this.body += 'return *this;';
+    }
+}
+
+export class SwapFunction extends Operator {
+    isFriend: boolean = false;
+    name: string = 'swap';
+    returnType: string = 'void ';
+    parameters: string;
+
+    constructor(parent: CSymbol, memberVariables?: CSymbol[]) {
+        super(parent);
+        this.parameters = `${parent.templatedName()} &other`;
+        if (memberVariables) {
+            this.setMemberVariables(memberVariables);
+        }
+    }
+
+    get trailingSpecifiers(): string {
+        return ' noexcept';
+    }
+
+    setMemberVariables(memberVariables: CSymbol[]): void {
+        const eol = this.parent.document.endOfLine;
+        const indent = util.indentation();
+        const memberPrefix = cfg.useExplicitThisPointer(this.parent.uri) ? 'this->' : '';
+
+        this.body = 'using std::swap;';
+        memberVariables.forEach(memberVariable => {
+            this.body += `${eol + indent}swap(${memberPrefix + memberVariable.name}, other.${memberVariable.name});`;
+        });
+    }
+}
+
+export class FriendSwapFunction extends Operator {
+    isFriend: boolean = true;
+    name: string = 'swap';
+    returnType: string = 'void ';
+    parameters: string;
+
+    constructor(parent: CSymbol) {
+        super(parent);
+        const type = `${parent.templatedName()} &`;
+        this.parameters = `${type}lhs, ${type}rhs`;
+        this.body = 'lhs.swap(rhs);';
+    }
+
+    get trailingSpecifiers(): string {
+        return ' noexcept';
+    }
+}
@@ -653,9 +653,12 @@ export default class SourceDocument extends SourceFile implements vscode.TextDoc
         return symbol.findDefinition();
     }
 
+    /**
+     * symbol itself is always included, so that static member variables can be positioned relative to functions.
+     */
     private static siblingFunctions(symbol: SourceSymbol, topLevelSymbols: SourceSymbol[]): SourceSymbol[] {
         return (symbol.parent ? symbol.parent.children : topLevelSymbols).filter(sibling => {
-            return sibling.isFunction();
+            return sibling.isFunction() || sibling.selectionRange.start.isEqual(symbol.selectionRange.start);
         });
     }
 
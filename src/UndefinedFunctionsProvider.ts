@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as util from './utility';
+import SourceDocument from './SourceDocument';
+import CSymbol from './CSymbol';
+
+
+/**
+ * A node in the Undefined Functions tree view. File nodes contain class nodes and the undefined functions that are
+ * not members of a class, and class nodes contain undefined member functions. Each node holds the declarations of
+ * every undefined function beneath it, so that definitions can be generated for any node.
+ */
+export class UndefinedFunctionsNode extends vscode.TreeItem {
+    readonly declarationDoc: SourceDocument;
+    /** The version of declarationDoc when the declarations were found. */
+    readonly version: number;
+    declarations: CSymbol[];
+    children: UndefinedFunctionsNode[] = [];
+    parent?: UndefinedFunctionsNode;
+
+    constructor(
+        label: string,
+        collapsibleState: vscode.TreeItemCollapsibleState,
+        declarationDoc: SourceDocument,
+        declarations: CSymbol[]
+    ) {
+        super(label, collapsibleState);
+        this.declarationDoc = declarationDoc;
+        this.version = declarationDoc.version;
+        this.declarations = declarations;
+        this.contextValue = 'undefinedFunctions';
+    }
+
+    addChild(child: UndefinedFunctionsNode): void {
+        child.parent = this;
+        this.children.push(child);
+    }
+}
+
+export class UndefinedFunctionsProvider
+        extends vscode.Disposable implements vscode.TreeDataProvider<UndefinedFunctionsNode> {
+    static readonly viewId = 'cmantic.undefinedFunctions';
+
+    private roots: UndefinedFunctionsNode[] = [];
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<UndefinedFunctionsNode | undefined>();
+
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor() {
+        super(() => this.onDidChangeTreeDataEmitter.dispose());
+    }
+
+    getTreeItem(node: UndefinedFunctionsNode): UndefinedFunctionsNode {
+        return node;
+    }
+
+    getChildren(node?: UndefinedFunctionsNode): UndefinedFunctionsNode[] {
+        return node ? node.children : this.roots;
+    }
+
+    getParent(node: UndefinedFunctionsNode): UndefinedFunctionsNode | undefined {
+        return node.parent;
+    }
+
+    /**
+     * Replaces the contents of the tree with undefinedFunctions, which maps header files to the undefined
+     * functions that they declare.
+     */
+    update(undefinedFunctions: Map<SourceDocument, CSymbol[]>): void {
+        this.roots = [];
+        undefinedFunctions.forEach((declarations, declarationDoc) => {
+            if (declarations.length > 0) {
+                this.roots.push(createFileNode(declarationDoc, declarations));
+            }
+        });
+        this.roots.sort((a, b) => a.declarationDoc.uri.fsPath.localeCompare(b.declarationDoc.uri.fsPath));
+
+        vscode.commands.executeCommand('setContext', 'cmantic.undefinedFunctionsFound', true);
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    /**
+     * Removes node from the tree, along with any ancestors that no longer contain undefined functions.
+     */
+    remove(node: UndefinedFunctionsNode): void {
+        const removedDeclarations = new Set(node.declarations);
+
+        let ancestor = node.parent;
+        while (ancestor) {
+            ancestor.declarations = ancestor.declarations.filter(declaration => !removedDeclarations.has(declaration));
+            ancestor = ancestor.parent;
+        }
+
+        let removedNode = node;
+        while (removedNode.parent && removedNode.parent.declarations.length === 0) {
+            removedNode = removedNode.parent;
+        }
+
+        if (removedNode.parent) {
+            removedNode.parent.children = removedNode.parent.children.filter(child => child !== removedNode);
+        } else {
+            this.roots = this.roots.filter(root => root !== removedNode);
+        }
+
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+}
+
+function createFileNode(declarationDoc: SourceDocument, declarations: CSymbol[]): UndefinedFunctionsNode {
+    const fileNode = new UndefinedFunctionsNode(
+            util.formatPathToDisplay(declarationDoc.uri),
+            vscode.TreeItemCollapsibleState.Expanded,
+            declarationDoc,
+            [...declarations]);
+    fileNode.resourceUri = declarationDoc.uri;
+    fileNode.iconPath = vscode.ThemeIcon.File;
+
+    const classNodes = new Map<string, UndefinedFunctionsNode>();
+    declarations.forEach(declaration => {
+        const parentClass = declaration.parent?.isClassType() ? declaration.parent : undefined;
+        if (!parentClass) {
+            fileNode.addChild(createFunctionNode(declarationDoc, declaration));
+            return;
+        }
+
+        const className = [...parentClass.allScopes(), parentClass.templatedName()].join('::');
+        let classNode = classNodes.get(className);
+        if (!classNode) {
+            classNode = new UndefinedFunctionsNode(
+                    className, vscode.TreeItemCollapsibleState.Collapsed, declarationDoc, []);
+            classNode.iconPath = new vscode.ThemeIcon(parentClass.isStruct() ? 'symbol-struct' : 'symbol-class');
+            classNodes.set(className, classNode);
+            fileNode.addChild(classNode);
+        }
+
+        classNode.declarations.push(declaration);
+        classNode.addChild(createFunctionNode(declarationDoc, declaration));
+    });
+
+    return fileNode;
+}
+
+function createFunctionNode(declarationDoc: SourceDocument, declaration: CSymbol): UndefinedFunctionsNode {
+    const functionNode = new UndefinedFunctionsNode(
+            declaration.name, vscode.TreeItemCollapsibleState.None, declarationDoc, [declaration]);
+    functionNode.description = util.formatSignature(declaration);
+    functionNode.iconPath = new vscode.ThemeIcon(
+            declaration.parent?.isClassType() ? 'symbol-method' : 'symbol-function');
+    functionNode.command = {
+        title: 'Go to Declaration',
+        command: 'vscode.open',
+        arguments: [declarationDoc.uri, { selection: declaration.selectionRange }]
+    };
+    return functionNode;
+}
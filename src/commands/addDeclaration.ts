@@ -3,18 +3,22 @@ import * as util from '../utility';
 import SourceFile from '../SourceFile';
 import SourceDocument from '../SourceDocument';
 import CSymbol from '../CSymbol';
+import { overrideKey } from './overrideVirtualFunctions';
 import { getMatchingHeaderSource, logger } from '../extension';
 
 
 export const title = {
     currentFile: 'Add Declaration in this file',
-    matchingHeaderFile: 'Add Declaration in matching header file'
+    matchingHeaderFile: 'Add Declaration in matching header file',
+    missingDeclarations: 'Add Missing Declarations'
 };
 
 export const failure = {
     noActiveTextEditor: 'No active text editor detected.',
     noFunctionDefinition: 'No function definition detected.',
-    declarationExists: 'A declaration for this function already exists.'
+    declarationExists: 'A declaration for this function already exists.',
+    isHeader: 'Missing declarations can only be added for the definitions in a source file.',
+    noMissingDeclarations: 'No function definitions without declarations were found in this file.'
 };
 
 export async function addDeclaration(
@@ -69,17 +73,155 @@ export async function addDeclaration(
         return;
     }
 
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    await addDeclarationToWorkspaceEdit(
+            functionDefinition, definitionDoc, targetDoc, parentClass, access, workspaceEdit);
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Adds declarations for all of the function definitions in sourceDoc whose declarations cannot be found (see
+ * findDefinitionsWithoutDeclarations). Member functions are declared in their classes, with the same access level,
+ * and other functions are declared in the matching header file.
+ */
+export async function addMissingDeclarations(sourceDoc?: SourceDocument): Promise<boolean | undefined> {
+    if (!sourceDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+        sourceDoc = new SourceDocument(editor.document);
+    }
+
+    if (sourceDoc.isHeader()) {
+        logger.alertWarning(failure.isHeader);
+        return;
+    }
+
+    const matchingUri = await getMatchingHeaderSource(sourceDoc.uri);
+    const definitions = await findDefinitionsWithoutDeclarations(sourceDoc, matchingUri);
+    if (definitions.length === 0) {
+        logger.alertInformation(failure.noMissingDeclarations);
+        return;
+    }
+
+    const parentClasses = await Promise.all(definitions.map(definition => definition.getParentClass()));
+    const access = parentClasses.some(parentClass => parentClass !== undefined)
+            ? await util.getMemberAccessFromUser()
+            : undefined;
+    if (parentClasses.some(parentClass => parentClass !== undefined) && access === undefined) {
+        // User cancelled the access specifier selection.
+        return;
+    }
+
+    const targetDocs = new Map<string, SourceDocument>([[sourceDoc.uri.fsPath, sourceDoc]]);
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const accessSpecifiedPositions = new Set<string>();
+
+    for (let i = 0; i < definitions.length; ++i) {
+        const targetUri = parentClasses[i]?.uri ?? matchingUri;
+        if (!targetUri) {
+            continue;
+        }
+
+        let targetDoc = targetDocs.get(targetUri.fsPath);
+        if (!targetDoc) {
+            targetDoc = await SourceDocument.open(targetUri);
+            targetDocs.set(targetUri.fsPath, targetDoc);
+        }
+
+        await addDeclarationToWorkspaceEdit(definitions[i], sourceDoc, targetDoc, parentClasses[i], access,
+                workspaceEdit, accessSpecifiedPositions);
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * accessSpecifiedPositions tracks the positions where an access specifier has already been inserted, so that
+ * declarations that are inserted at the same position share one access specifier.
+ */
+async function addDeclarationToWorkspaceEdit(
+    functionDefinition: CSymbol,
+    definitionDoc: SourceDocument,
+    targetDoc: SourceDocument,
+    parentClass: CSymbol | undefined,
+    access: util.AccessLevel | undefined,
+    workspaceEdit: vscode.WorkspaceEdit,
+    accessSpecifiedPositions = new Set<string>()
+): Promise<void> {
     const targetPos = await definitionDoc.findSmartPositionForFunctionDeclaration(
             functionDefinition, targetDoc, parentClass, access);
+    const positionKey = targetDoc.uri.toString() + ':' + targetDoc.offsetAt(targetPos);
 
     const declaration = await functionDefinition.getDeclarationForTargetPosition(targetDoc, targetPos);
     let formattedDeclaration = declaration;
-    if (access && !parentClass?.positionHasAccess(targetPos, access)) {
+    if (access && !parentClass?.positionHasAccess(targetPos, access) && !accessSpecifiedPositions.has(positionKey)) {
         formattedDeclaration = util.accessSpecifierString(access) + targetDoc.endOfLine + formattedDeclaration;
+        accessSpecifiedPositions.add(positionKey);
     }
     formattedDeclaration = targetPos.formatTextToInsert(formattedDeclaration, targetDoc);
 
-    const workspaceEdit = new vscode.WorkspaceEdit();
     workspaceEdit.insert(targetDoc.uri, targetPos, formattedDeclaration);
-    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Finds the function definitions in sourceDoc whose declarations cannot be found. This includes out-of-class member
+ * function definitions whose class does not declare them, and functions with external linkage that are not declared
+ * in a header (only if the source file has a matching header to declare them in).
+ */
+export async function findDefinitionsWithoutDeclarations(
+    sourceDoc: SourceDocument, matchingUri?: vscode.Uri
+): Promise<CSymbol[]> {
+    const hasMatchingHeader = !!matchingUri && SourceFile.isHeader(matchingUri);
+    const definitions = (await sourceDoc.allFunctions()).filter(functionSymbol => {
+        if (!functionSymbol.isFunctionDefinition() || functionSymbol.parent?.isClassType()) {
+            return false;
+        } else if (functionSymbol.immediateScope()) {
+            return true;
+        }
+        return hasMatchingHeader && functionSymbol.name !== 'main' && !functionSymbol.isStatic()
+            && !functionSymbol.isInline() && !functionSymbol.hasUnspecializedTemplate()
+            && !functionSymbol.scopes().some(scope => scope.isNamespace() && scope.isAnonymous());
+    });
+
+    const definitionsWithoutDeclarations: CSymbol[] = [];
+    for (let i = 0; i < definitions.length; i += 10) {
+        const chunk = definitions.slice(i, i + 10);
+        const hasDeclaration = await Promise.all(chunk.map(definition => definitionHasDeclaration(definition)));
+        chunk.forEach((definition, index) => {
+            if (!hasDeclaration[index]) {
+                definitionsWithoutDeclarations.push(definition);
+            }
+        });
+    }
+
+    return definitionsWithoutDeclarations;
+}
+
+/**
+ * findDeclaration() only finds declarations in files with the same base name, so a member function is also checked
+ * against the members of its class (by signature, since it may be an overload that is not declared yet), and other
+ * functions are checked against all results of the declaration provider.
+ */
+async function definitionHasDeclaration(definition: CSymbol): Promise<boolean> {
+    if (await definition.findDeclaration()) {
+        return true;
+    }
+
+    if (definition.immediateScope()) {
+        const parentClass = await definition.getParentClass();
+        const definitionKey = overrideKey(definition);
+        return !parentClass || parentClass.children.some(child => {
+            const member = new CSymbol(child, parentClass.document);
+            return member.isFunction() && member.name === definition.name && overrideKey(member) === definitionKey;
+        });
+    }
+
+    const declarationResults = await vscode.commands.executeCommand<util.LocationType[]>(
+            'vscode.executeDeclarationProvider', definition.uri, definition.selectionRange.start);
+    return util.makeLocationArray(declarationResults).some(location =>
+            !(location.uri.fsPath === definition.uri.fsPath && definition.range.contains(location.range)));
 }
@@ -4,6 +4,7 @@ import * as util from '../utility';
 import SourceDocument from '../SourceDocument';
 import CSymbol from '../CSymbol';
 import SubSymbol from '../SubSymbol';
+import FunctionSignature from '../FunctionSignature';
 import { ProposedPosition } from '../ProposedPosition';
 import { showSingleQuickPick, showMultiQuickPick, MultiQuickPickOptions } from '../QuickPick';
 import { createMatchingSourceFile } from './createSourceFile';
@@ -125,7 +126,10 @@ export async function addDefinition(
     }
 
     const workspaceEdit = new vscode.WorkspaceEdit();
-    workspaceEdit.insert(targetDoc.uri, targetPos, functionSkeleton);
+    workspaceEdit.insert(targetDoc.uri, targetPos, functionSkeleton.text);
+    if (functionSkeleton.tabstop) {
+        newFunctionTabstops.set(workspaceEdit, functionSkeleton.tabstop);
+    }
     const success = await vscode.workspace.applyEdit(workspaceEdit);
 
     if (success && cfg.revealNewDefinition(declarationDoc)) {
@@ -278,18 +282,45 @@ async function showInitializersQuickPick(
     return selectedItems?.map(item => item.initializer);
 }
 
+/**
+ * The position of the first tabstop of a definition body template. The line is relative to the first line of the
+ * body, and the character is relative to the first non-whitespace character of that line.
+ */
+interface BodyTabstop {
+    line: number;
+    character: number;
+    length: number;
+}
+
+interface FunctionSkeleton {
+    text: string;
+    tabstop?: BodyTabstop;
+}
+
+/**
+ * Maps WorkspaceEdits to the tabstop of the first function skeleton inserted into them, so that revealNewFunction
+ * can place the cursor on it.
+ */
+const newFunctionTabstops = new WeakMap<vscode.WorkspaceEdit, BodyTabstop>();
+
 async function constructFunctionSkeleton(
     functionDeclaration: CSymbol,
     targetDoc: SourceDocument,
     position: ProposedPosition,
-    p_initializers: Promise<Initializer[] | undefined>
-): Promise<string | undefined> {
+    p_initializers: Promise<Initializer[] | undefined>,
+    memberOptions?: NewMemberDefinitionOptions
+): Promise<FunctionSkeleton | undefined> {
     const curlyBraceFormat = cfg.functionCurlyBraceFormat(targetDoc.languageId, targetDoc);
     const eol = targetDoc.endOfLine;
     const indentation = util.indentation();
+    const formatText = (text: string): string =>
+            memberOptions?.formatText ? memberOptions.formatText(functionDeclaration, text) : text;
 
     const [definition, initializers] = await Promise.all([
-        functionDeclaration.newFunctionDefinition(targetDoc, position),
+        memberOptions
+            ? functionDeclaration.newMemberFunctionDefinition(
+                    targetDoc, position, memberOptions.parentClass, formatText)
+            : functionDeclaration.newFunctionDefinition(targetDoc, position),
         p_initializers
     ]);
 
@@ -299,19 +330,100 @@ async function constructFunctionSkeleton(
     }
 
     const initializerList = constructInitializerList(initializers, eol);
+    const body = constructFunctionBody(functionDeclaration, targetDoc);
+    body.text = formatText(body.text);
 
     let functionSkeleton: string;
     if (curlyBraceFormat === cfg.CurlyBraceFormat.NewLine
             || (curlyBraceFormat === cfg.CurlyBraceFormat.NewLineCtorDtor
             && (functionDeclaration.isConstructor() || functionDeclaration.isDestructor()))) {
         // Opening brace on new line.
-        functionSkeleton = definition + initializerList + eol + '{' + eol + indentation + eol + '}';
+        functionSkeleton = definition + initializerList + eol + '{' + eol
+                + util.insertBeforeEachLine(body.text, indentation) + eol + '}';
     } else {
         // Opening brace on same line.
-        functionSkeleton = definition + initializerList + ' {' + eol + indentation + eol + '}';
+        functionSkeleton = definition + initializerList + ' {' + eol
+                + util.insertBeforeEachLine(body.text, indentation) + eol + '}';
     }
 
-    return position.formatTextToInsert(functionSkeleton, targetDoc);
+    return { text: position.formatTextToInsert(functionSkeleton, targetDoc), tabstop: body.tabstop };
+}
+
+function returnTypeCategory(signature: FunctionSignature): cfg.ReturnTypeCategory {
+    const returnType = signature.normalizedReturnType;
+    if (returnType === '' || returnType === 'void') {
+        return 'void';
+    } else if (returnType.endsWith('*')) {
+        return 'pointer';
+    } else if (returnType.endsWith('&')) {
+        return 'reference';
+    }
+    return 'value';
+}
+
+/**
+ * Expands the configured definition body template for functionDeclaration. Snippet tabstops are removed from the
+ * text, keeping their placeholders, and the first tabstop is returned so that the cursor can be placed on it.
+ */
+export function constructFunctionBody(functionDeclaration: CSymbol, targetDoc: SourceDocument): FunctionSkeleton {
+    let signature: FunctionSignature;
+    try {
+        signature = new FunctionSignature(functionDeclaration);
+    } catch (error) {
+        return { text: '' };
+    }
+
+    const template = cfg.definitionBodyTemplate(targetDoc.languageId, returnTypeCategory(signature), targetDoc);
+    if (!template) {
+        return { text: '' };
+    }
+
+    const expandedTemplate = template
+            .replace(/\$\{FUNCTION_NAME\}/g, () => signature.name)
+            .replace(/\$\{RETURN_TYPE\}/g, () => signature.returnType)
+            .replace(/\$\{PARAMETERS\}/g, () => signature.parameters.map(parameter => parameter.name).join(', '))
+            .replace(/\r?\n/g, targetDoc.endOfLine);
+
+    let text = '';
+    let lastIndex = 0;
+    let firstTabstop: { number: number; index: number; length: number } | undefined;
+    for (const match of expandedTemplate.matchAll(/\$(\d+)|\$\{(\d+)(?::([^}]*))?\}/g)) {
+        if (match.index === undefined) {
+            continue;
+        }
+
+        text += expandedTemplate.slice(lastIndex, match.index);
+        lastIndex = match.index + match[0].length;
+
+        // $0 is the final tabstop, so it is only used if there are no other tabstops.
+        const number = Number(match[1] ?? match[2]);
+        const placeholder = match[3] ?? '';
+        const isBefore = (a: number, b: number): boolean => (a === 0 ? Infinity : a) < (b === 0 ? Infinity : b);
+        if (!firstTabstop || isBefore(number, firstTabstop.number)) {
+            firstTabstop = { number: number, index: text.length, length: placeholder.length };
+        }
+
+        text += placeholder;
+    }
+    text += expandedTemplate.slice(lastIndex);
+
+    if (!firstTabstop) {
+        return { text: text };
+    }
+
+    const linesBeforeTabstop = text.slice(0, firstTabstop.index).split('\n');
+    const line = linesBeforeTabstop.length - 1;
+    const lineText = text.split('\n')[line];
+    const leadingWhitespaceLength = lineText.length - lineText.trimStart().length;
+
+    return {
+        text: text,
+        tabstop: {
+            line: line,
+            character: Math.max(linesBeforeTabstop[line].length - leadingWhitespaceLength, 0),
+            length: firstTabstop.length
+        }
+    };
 }
 
 function constructInitializerList(initializers: Initializer[], eol: string): string {
@@ -339,11 +451,12 @@ export async function revealNewFunction(workspaceEdit: vscode.WorkspaceEdit, tar
     const start = firstEdit.range.start;
     util.revealRange(editor, new vscode.Range(start, start.translate(util.lineCount(firstEdit.newText))));
 
-    const cursorPosition = targetDoc.validatePosition(getPositionForCursor(start, firstEdit.newText));
-    editor.selection = new vscode.Selection(cursorPosition, cursorPosition);
+    const cursorRange = getRangeForCursor(start, firstEdit.newText, newFunctionTabstops.get(workspaceEdit));
+    editor.selection = new vscode.Selection(
+            targetDoc.validatePosition(cursorRange.start), targetDoc.validatePosition(cursorRange.end));
 }
 
-function getPositionForCursor(position: vscode.Position, functionSkeleton: string): vscode.Position {
+function getRangeForCursor(position: vscode.Position, functionSkeleton: string, tabstop?: BodyTabstop): vscode.Range {
     const lines = functionSkeleton.split('\n');
     for (let i = 0; i < lines.length; ++i) {
         if (lines[i].trimStart().startsWith(':')) {
@@ -352,16 +465,25 @@ function getPositionForCursor(position: vscode.Position, functionSkeleton: strin
             if (index === -1) {
                 index = lines[i].lastIndexOf('}');
                 if (index === -1) {
-                    return position;
+                    return new vscode.Range(position, position);
                 }
             }
-            return new vscode.Position(i + position.line, index);
+            const cursorPosition = new vscode.Position(i + position.line, index);
+            return new vscode.Range(cursorPosition, cursorPosition);
         }
         if (lines[i].trimEnd().endsWith('{')) {
-            return new vscode.Position(i + 1 + position.line, lines[i + 1].length);
+            if (tabstop && i + 1 + tabstop.line < lines.length) {
+                const tabstopLine = lines[i + 1 + tabstop.line].trimEnd();
+                const leadingWhitespaceLength = tabstopLine.length - tabstopLine.trimStart().length;
+                const tabstopStart = new vscode.Position(
+                        i + 1 + tabstop.line + position.line, leadingWhitespaceLength + tabstop.character);
+                return new vscode.Range(tabstopStart, tabstopStart.translate(0, tabstop.length));
+            }
+            const cursorPosition = new vscode.Position(i + 1 + position.line, lines[i + 1].length);
+            return new vscode.Range(cursorPosition, cursorPosition);
         }
     }
-    return position;
+    return new vscode.Range(position, position);
 }
 
 /**
@@ -430,10 +552,24 @@ interface WorkspaceEditArgumentsEntry {
     args: WorkspaceEditArguments;
 }
 
+/**
+ * Options for generating the definitions of new member functions of parentClass whose declarations are added in the
+ * same edit, and so cannot be found in a document yet. The functions that are passed as the declarations only provide
+ * the signatures of the new member functions, such as the virtual functions that they override.
+ */
+export interface NewMemberDefinitionOptions {
+    parentClass: CSymbol;
+    /** The position to insert all of the definitions at, since their declarations cannot be used to find one. */
+    position: ProposedPosition;
+    /** Applied to the text that is taken from each declaration, such as to substitute template arguments. */
+    formatText?: (functionDeclaration: CSymbol, text: string) => string;
+}
+
 export async function generateDefinitionsWorkspaceEdit(
     functionDeclarations: CSymbol[],
     declarationDoc: SourceDocument,
-    targetDoc: SourceDocument
+    targetDoc: SourceDocument,
+    memberOptions?: NewMemberDefinitionOptions
 ): Promise<vscode.WorkspaceEdit | undefined> {
     /* Since generating constructors requires additional user input, we must generate them
      * separately, one at a time. In order to insert them all in the same order that their
@@ -454,7 +590,8 @@ export async function generateDefinitionsWorkspaceEdit(
     async function generateNextChunkOfNonConstructors(i: number): Promise<void> {
         const p_argsEntries: Promise<WorkspaceEditArgumentsEntry | undefined>[] = [];
         nonCtors.slice(i, i + 5).forEach(declaration => {
-            p_argsEntries.push(getWorkspaceEditArgumentsEntry(declaration, declarationDoc, targetDoc));
+            p_argsEntries.push(getWorkspaceEditArgumentsEntry(
+                    declaration, declarationDoc, targetDoc, undefined, memberOptions));
         });
 
         (await Promise.all(p_argsEntries)).forEach(entry => {
@@ -479,7 +616,8 @@ export async function generateDefinitionsWorkspaceEdit(
 
         const p_generatedConstructors = (async (): Promise<void> => {
             for (const declaration of ctors) {
-                const entry = await getWorkspaceEditArgumentsEntry(declaration, declarationDoc, targetDoc, token);
+                const entry = await getWorkspaceEditArgumentsEntry(
+                        declaration, declarationDoc, targetDoc, token, memberOptions);
                 if (entry) {
                     allArgs.set(entry.declaration, entry.args);
                 } else if (token.isCancellationRequested) {
@@ -531,21 +669,23 @@ async function getWorkspaceEditArgumentsEntry(
     functionDeclaration: CSymbol,
     declarationDoc: SourceDocument,
     targetDoc: SourceDocument,
-    token?: vscode.CancellationToken
+    token?: vscode.CancellationToken,
+    memberOptions?: NewMemberDefinitionOptions
 ): Promise<WorkspaceEditArgumentsEntry | undefined> {
     const p_initializers = getInitializersIfFunctionIsConstructor(functionDeclaration, token);
 
-    const targetPos = await declarationDoc.findSmartPositionForFunctionDefinition(functionDeclaration, targetDoc);
+    const targetPos = memberOptions?.position
+            ?? await declarationDoc.findSmartPositionForFunctionDefinition(functionDeclaration, targetDoc);
 
     const functionSkeleton = await constructFunctionSkeleton(
-            functionDeclaration, targetDoc, targetPos, p_initializers);
+            functionDeclaration, targetDoc, targetPos, p_initializers, memberOptions);
     if (functionSkeleton === undefined) {
         return;
     }
 
     return {
         declaration: functionDeclaration,
-        args: [targetDoc.uri, targetPos, functionSkeleton]
+        args: [targetDoc.uri, targetPos, functionSkeleton.text]
     };
 }
 
@@ -75,30 +75,40 @@ export function headerGuardMatchesConfiguredStyle(headerDoc: SourceDocument): bo
     return true;
 }
 
-interface HeaderGuard {
+export interface HeaderGuard {
     header: string;
     footer: string;
 }
 
-function generateHeaderGuard(
-    headerDoc: SourceDocument, headerPosition: ProposedPosition, footerPosition: vscode.Position
-): HeaderGuard {
-    const eol = headerDoc.endOfLine;
+/**
+ * Formats the header guard for the header at uri according to the configured style, without regard for the
+ * contents of the file. Also used for headers that haven't been created yet.
+ */
+export function formatHeaderGuard(uri: vscode.Uri, eol: string): HeaderGuard {
     let header = '';
     let footer = '';
 
-    const headerGuardStyle = cfg.headerGuardStyle(headerDoc);
+    const headerGuardStyle = cfg.headerGuardStyle(uri);
 
     if (headerGuardStyle === cfg.HeaderGuardStyle.PragmaOnce || headerGuardStyle === cfg.HeaderGuardStyle.Both) {
         header = '#pragma once' + eol;
     }
 
     if (headerGuardStyle === cfg.HeaderGuardStyle.Define || headerGuardStyle === cfg.HeaderGuardStyle.Both) {
-        const headerGuardDefine = cfg.headerGuardDefine(headerDoc.uri);
+        const headerGuardDefine = cfg.headerGuardDefine(uri);
         header += '#ifndef ' + headerGuardDefine + eol + '#define ' + headerGuardDefine + eol;
         footer = eol + '#endif // ' + headerGuardDefine + eol;
     }
 
+    return { header: header, footer: footer };
+}
+
+function generateHeaderGuard(
+    headerDoc: SourceDocument, headerPosition: ProposedPosition, footerPosition: vscode.Position
+): HeaderGuard {
+    const eol = headerDoc.endOfLine;
+    let { header, footer } = formatHeaderGuard(headerDoc.uri, eol);
+
     if (headerPosition.options.after) {
         header = eol + eol + header;
     } else if (headerPosition.options.before) {
@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import SourceSymbol from '../SourceSymbol';
+import CSymbol from '../CSymbol';
+import SubSymbol from '../SubSymbol';
+import { logger } from '../extension';
+
+
+export const title = {
+    addMissingCaseLabels: 'Add Missing Case Labels'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot add case labels.',
+    noSwitchStatement: 'No switch statement detected.',
+    enumNotFound: 'Could not find the enum that this switch statement is switching on.',
+    noMissingCaseLabels: 'All enumerators are already handled by this switch statement.'
+};
+
+/**
+ * Represents a switch statement within a function definition. Only switch statements with a body enclosed
+ * in braces are recognized.
+ */
+export interface SwitchStatement {
+    /** The range from the switch keyword to the end of the condition. */
+    headerRange: vscode.Range;
+    /** The last identifier in the condition, which is used to find the type of the condition. */
+    conditionIdentifier?: vscode.Position;
+    closingBrace: vscode.Position;
+    /** The range of each case label is the expression of the label, and the selectionRange is its last identifier. */
+    caseLabels: SubSymbol[];
+}
+
+export async function addMissingCaseLabels(
+    sourceDoc?: SourceDocument,
+    position?: vscode.Position
+): Promise<boolean | undefined> {
+    if (!sourceDoc || !position) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        sourceDoc = new SourceDocument(editor.document);
+        if (sourceDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        position = editor.selection.start;
+    }
+
+    const functionSymbol = await sourceDoc.getSymbol(position);
+    const switchStatement = functionSymbol?.isFunctionDefinition()
+            ? findSwitchStatement(functionSymbol, position)
+            : undefined;
+    if (!functionSymbol || !switchStatement) {
+        logger.alertWarning(failure.noSwitchStatement);
+        return;
+    }
+
+    const enumSymbol = await resolveEnum(switchStatement, sourceDoc);
+    if (!enumSymbol) {
+        logger.alertWarning(failure.enumNotFound);
+        return;
+    }
+
+    const missingEnumerators = findMissingEnumerators(switchStatement, enumSymbol);
+    if (missingEnumerators.length === 0) {
+        logger.alertInformation(failure.noMissingCaseLabels);
+        return;
+    }
+
+    const eol = sourceDoc.endOfLine;
+    const indentation = util.indentation();
+    const switchIndentation = leadingWhitespace(sourceDoc, switchStatement.headerRange.start);
+    const labelIndentation = switchStatement.caseLabels.length > 0
+        ? leadingWhitespace(sourceDoc, switchStatement.caseLabels[0].range.start)
+        : switchIndentation + indentation;
+    const qualifier = enumeratorQualifier(switchStatement, enumSymbol, functionSymbol);
+
+    const newCaseLabels = missingEnumerators.map(enumerator =>
+            labelIndentation + 'case ' + qualifier + enumerator.name + ':' + eol
+            + labelIndentation + indentation + 'break;').join(eol);
+
+    const closingBrace = switchStatement.closingBrace;
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    if (sourceDoc.lineAt(closingBrace).text.slice(0, closingBrace.character).trim() === '') {
+        workspaceEdit.insert(sourceDoc.uri, new vscode.Position(closingBrace.line, 0), newCaseLabels + eol);
+    } else {
+        workspaceEdit.insert(sourceDoc.uri, closingBrace, eol + newCaseLabels + eol + switchIndentation);
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Returns the innermost switch statement in functionSymbol that contains position.
+ */
+export function findSwitchStatement(functionSymbol: CSymbol, position: vscode.Position): SwitchStatement | undefined {
+    const document = functionSymbol.document;
+    const text = functionSymbol.parsableText;
+    const startOffset = functionSymbol.startOffset();
+    const relativeOffset = document.offsetAt(position) - startOffset;
+
+    let switchStatement: SwitchStatement | undefined;
+
+    for (const match of text.matchAll(/\bswitch\s*\(/g)) {
+        if (match.index === undefined || match.index > relativeOffset) {
+            break;
+        }
+
+        const openParenIndex = match.index + match[0].length - 1;
+        const closeParenIndex = parse.maskParentheses(text.slice(openParenIndex)).indexOf(')') + openParenIndex;
+        if (closeParenIndex < openParenIndex) {
+            continue;
+        }
+
+        const openBraceIndex = text.indexOf('{', closeParenIndex);
+        if (openBraceIndex === -1 || text.slice(closeParenIndex + 1, openBraceIndex).trim() !== '') {
+            continue;
+        }
+
+        const closeBraceIndex = parse.maskBraces(text.slice(openBraceIndex)).indexOf('}') + openBraceIndex;
+        if (closeBraceIndex < openBraceIndex || closeBraceIndex < relativeOffset) {
+            continue;
+        }
+
+        const condition = parse.maskParentheses(text.slice(openParenIndex + 1, closeParenIndex));
+        const conditionMatch = condition.match(/[\w_][\w\d_]*(?=[^\w\d_]*$)/);
+
+        // Later matches are nested within earlier ones, so the innermost switch statement wins.
+        switchStatement = {
+            headerRange: new vscode.Range(
+                    document.positionAt(startOffset + match.index),
+                    document.positionAt(startOffset + closeParenIndex + 1)),
+            conditionIdentifier: conditionMatch?.index !== undefined
+                ? document.positionAt(startOffset + openParenIndex + 1 + conditionMatch.index)
+                : undefined,
+            closingBrace: document.positionAt(startOffset + closeBraceIndex),
+            caseLabels: findCaseLabels(functionSymbol, openBraceIndex + 1, closeBraceIndex)
+        };
+    }
+
+    return switchStatement;
+}
+
+/**
+ * Nested blocks are masked, so that the case labels of nested switch statements are not included.
+ */
+function findCaseLabels(functionSymbol: CSymbol, bodyStartIndex: number, bodyEndIndex: number): SubSymbol[] {
+    const document = functionSymbol.document;
+    const bodyStartOffset = functionSymbol.startOffset() + bodyStartIndex;
+    const body = parse.maskBraces(functionSymbol.parsableText.slice(bodyStartIndex, bodyEndIndex));
+
+    const caseLabels: SubSymbol[] = [];
+    for (const match of body.matchAll(/\bcase\s+((?:::|[^:;{}])+?)\s*:(?!:)/g)) {
+        if (match.index === undefined) {
+            continue;
+        }
+
+        const expressionIndex = match.index + match[0].indexOf(match[1]);
+        const identifierMatch = match[1].match(/[\w_][\w\d_]*$/);
+        if (identifierMatch?.index === undefined) {
+            continue;
+        }
+
+        const identifierIndex = expressionIndex + identifierMatch.index;
+        caseLabels.push(new SubSymbol(
+            document,
+            new vscode.Range(
+                    document.positionAt(bodyStartOffset + expressionIndex),
+                    document.positionAt(bodyStartOffset + expressionIndex + match[1].length)),
+            new vscode.Range(
+                    document.positionAt(bodyStartOffset + identifierIndex),
+                    document.positionAt(bodyStartOffset + identifierIndex + identifierMatch[0].length))
+        ));
+    }
+
+    return caseLabels;
+}
+
+/**
+ * Finds the enum by going to the definition of an existing case label. If there are no case labels, then
+ * the type of the condition is used.
+ */
+export async function resolveEnum(switchStatement: SwitchStatement, sourceDoc: SourceDocument): Promise<CSymbol | undefined> {
+    for (const caseLabel of switchStatement.caseLabels) {
+        const locations = await sourceDoc.findDefinitions(caseLabel.selectionRange.start);
+        const enumSymbol = await findEnumAtLocations(locations, sourceDoc);
+        if (enumSymbol) {
+            return enumSymbol;
+        }
+    }
+
+    if (switchStatement.conditionIdentifier) {
+        const typeDefinitionResults = await vscode.commands.executeCommand<util.LocationType[]>(
+                'vscode.executeTypeDefinitionProvider', sourceDoc.uri, switchStatement.conditionIdentifier);
+        return findEnumAtLocations(util.makeLocationArray(typeDefinitionResults), sourceDoc);
+    }
+}
+
+export function findMissingEnumerators(switchStatement: SwitchStatement, enumSymbol: CSymbol): SourceSymbol[] {
+    const handledEnumerators = new Set(switchStatement.caseLabels.map(caseLabel => caseLabel.name));
+    return enumSymbol.children.filter(child =>
+            child.kind === vscode.SymbolKind.EnumMember && !handledEnumerators.has(child.name));
+}
+
+async function findEnumAtLocations(
+    locations: vscode.Location[], sourceDoc: SourceDocument
+): Promise<CSymbol | undefined> {
+    for (const location of locations) {
+        const enumDoc = (location.uri.fsPath === sourceDoc.uri.fsPath)
+                ? sourceDoc
+                : await SourceDocument.open(location.uri);
+        const symbol = await enumDoc.getSymbol(location.range.start);
+        if (symbol?.isEnum()) {
+            return symbol;
+        } else if (symbol?.parent?.isEnum()) {
+            return symbol.parent;
+        }
+    }
+}
+
+/**
+ * New case labels are qualified the same way as the existing ones. If there are none, then the enumerators
+ * are qualified with the scopes of the enum that are not shared with the function.
+ */
+function enumeratorQualifier(switchStatement: SwitchStatement, enumSymbol: CSymbol, functionSymbol: CSymbol): string {
+    if (switchStatement.caseLabels.length > 0) {
+        const caseLabel = switchStatement.caseLabels[0];
+        const qualifierRange = new vscode.Range(caseLabel.range.start, caseLabel.selectionRange.start);
+        return caseLabel.document.getText(qualifierRange).replace(/\s+/g, '');
+    }
+
+    const isScoped = /\benum\s+(class|struct)\b/.test(enumSymbol.parsableText);
+    const enumScopes = enumSymbol.scopes().filter(scope => !scope.isAnonymous()).map(scope => scope.name);
+    if (isScoped) {
+        enumScopes.push(enumSymbol.name);
+    }
+
+    const functionScopes = functionSymbol.allScopes();
+    let sharedScopeCount = 0;
+    while (sharedScopeCount < enumScopes.length
+            && enumScopes[sharedScopeCount] === functionScopes[sharedScopeCount]) {
+        ++sharedScopeCount;
+    }
+
+    const qualifier = enumScopes.slice(sharedScopeCount).join('::');
+    return qualifier ? qualifier + '::' : '';
+}
+
+function leadingWhitespace(sourceDoc: SourceDocument, position: vscode.Position): string {
+    const lineText = sourceDoc.lineAt(position).text;
+    return lineText.slice(0, lineText.length - lineText.trimStart().length);
+}
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import { ProposedPosition } from '../ProposedPosition';
+import { revealNewFunction } from './addDefinition';
+import { getMatchingHeaderSource, logger } from '../extension';
+
+
+export const title = {
+    currentFile: 'Add Definition in this file',
+    matchingSourceFile: 'Add Definition in matching source file'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot add a static member definition.',
+    noStaticMemberVariable: 'No static member variable detected.',
+    noMatchingSourceFile: 'No matching source file was found.',
+    isInline: 'Inline static member variables are defined by their declaration.',
+    isConstexpr: 'Constexpr static member variables are defined by their declaration.',
+    definitionExists: 'A definition for this static member variable already exists.'
+};
+
+export async function addStaticMemberDefinition(
+    memberVariable?: CSymbol,
+    declarationDoc?: SourceDocument,
+    targetUri?: vscode.Uri,
+    skipExistingDefinitionCheck?: boolean
+): Promise<boolean | undefined> {
+    if (!memberVariable || !declarationDoc || !targetUri) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        declarationDoc = new SourceDocument(editor.document);
+        if (declarationDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const [matchingUri, symbol] = await Promise.all([
+            getMatchingHeaderSource(declarationDoc.uri),
+            declarationDoc.getSymbol(editor.selection.start)
+        ]);
+
+        if (!symbol || !isStaticMemberVariable(symbol)) {
+            logger.alertWarning(failure.noStaticMemberVariable);
+            return;
+        } else if (symbol.isInline()) {
+            logger.alertInformation(failure.isInline);
+            return;
+        } else if (symbol.isConstexpr()) {
+            logger.alertInformation(failure.isConstexpr);
+            return;
+        }
+
+        memberVariable = symbol;
+        // Static members of class templates must be defined in the header, along with the rest of the template.
+        if (!declarationDoc.isHeader() || memberVariable.hasUnspecializedTemplate()) {
+            targetUri = declarationDoc.uri;
+        } else if (matchingUri) {
+            targetUri = matchingUri;
+        } else {
+            logger.alertWarning(failure.noMatchingSourceFile);
+            return;
+        }
+    }
+
+    if (!skipExistingDefinitionCheck && await memberVariable.findDefinition()) {
+        logger.alertInformation(failure.definitionExists);
+        return;
+    }
+
+    const targetDoc = (targetUri.fsPath === declarationDoc.uri.fsPath)
+            ? declarationDoc
+            : await SourceDocument.open(targetUri);
+    const targetPos = await declarationDoc.findSmartPositionForFunctionDefinition(memberVariable, targetDoc);
+
+    const definition = await formatStaticMemberDefinition(memberVariable, targetDoc, targetPos);
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.insert(targetDoc.uri, targetPos, targetPos.formatTextToInsert(definition, targetDoc));
+    const success = await vscode.workspace.applyEdit(workspaceEdit);
+
+    if (success && cfg.revealNewDefinition(declarationDoc)) {
+        await revealNewFunction(workspaceEdit, targetDoc);
+    }
+
+    return success;
+}
+
+export function isStaticMemberVariable(symbol: CSymbol): boolean {
+    return symbol.isMemberVariable() && symbol.isStatic();
+}
+
+/**
+ * Formats the out-of-class definition of memberVariable, such as `Type Class::name{};`. If the declaration has an
+ * initializer (as is allowed for const integral members), then the definition must not have one.
+ */
+async function formatStaticMemberDefinition(
+    memberVariable: CSymbol, targetDoc: SourceDocument, position: ProposedPosition
+): Promise<string> {
+    const document = memberVariable.document;
+    const scopeString = await memberVariable.scopeString(targetDoc, position);
+
+    const leadingTextRange = new vscode.Range(memberVariable.declarationStart(), memberVariable.scopeStringStart());
+    const leadingText = document.getText(leadingTextRange).replace(/\bstatic\b\s*/, '').replace(/\s+/g, ' ').trimStart();
+
+    // Array bounds are part of the type, so everything up to the initializer or semi-colon is kept.
+    const maskedTrailingText = parse.maskBrackets(memberVariable.parsableTrailingText);
+    const trailingMatch = maskedTrailingText.match(/\s*([={;])/);
+    const trailingEndIndex = trailingMatch?.index ?? maskedTrailingText.length;
+    const nameEndIndex = document.offsetAt(memberVariable.selectionRange.end) - memberVariable.startOffset();
+    const trailingText = memberVariable.text().slice(nameEndIndex, nameEndIndex + trailingEndIndex);
+    const hasInitializer = trailingMatch !== null && trailingMatch[1] !== ';';
+
+    return memberVariable.combinedTemplateStatements(true, targetDoc.endOfLine)
+            + leadingText + scopeString + memberVariable.name + trailingText
+            + (hasInitializer ? '' : '{}') + ';';
+}
@@ -0,0 +1,704 @@
+import * as vscode from 'vscode';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import FunctionSignature, { RefQualifier } from '../FunctionSignature';
+import { Parameter, ParameterList, parseParameterList } from '../ParameterList';
+import { SignatureSpecifiers, updateReturnType, updateSpecifiers } from './updateSignature';
+import { FunctionCall, findFunctionCall } from './inlineFunction';
+import { logger } from '../extension';
+import { showMultiQuickPick, showSingleQuickPick } from '../QuickPick';
+
+
+export const title = {
+    changeSignature: 'Change Signature'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCOrCpp: 'Detected language is not C or C++, cannot change a function signature.',
+    noFunction: 'No function declaration or definition detected.',
+    isDestructor: 'The signature of a destructor cannot be changed.',
+    isVariadic: 'Cannot change the signature of a variadic function.',
+    misplacedDefaultValue: 'Parameters without default values cannot follow parameters with default values.'
+};
+
+/**
+ * A parameter of the changed signature.
+ */
+interface ParameterChange {
+    type: string;
+    name: string;
+    defaultValue: string;
+    /** The parameter in the original signature, or undefined if the parameter is new. */
+    original?: { index: number; parameter: Parameter };
+    /** The argument that is passed to a new parameter at existing call sites. */
+    argument: string;
+}
+
+type Qualifier = 'const' | 'volatile' | '&' | '&&' | 'noexcept';
+
+export class ChangedSignature implements SignatureSpecifiers {
+    readonly name: string;
+    parameters: ParameterChange[];
+    returnType: string;
+    private readonly originalReturnType: string;
+    readonly isConstexpr: boolean;
+    readonly isConsteval: boolean;
+    isConst: boolean;
+    isVolatile: boolean;
+    refQualifier: RefQualifier;
+    noexcept: string;
+
+    get normalizedReturnType(): string {
+        return parse.normalizeSourceText(this.returnType);
+    }
+
+    get normalizedNoexcept(): string {
+        return parse.normalizeSourceText(this.noexcept);
+    }
+
+    /**
+     * Default values are only allowed in one declaration of a function, so they are taken from declarationSig.
+     */
+    constructor(signature: FunctionSignature, declarationSig: FunctionSignature) {
+        this.name = signature.name;
+        this.parameters = getParameters(signature).map((parameter, index) => ({
+            type: parameter.type,
+            name: parameter.name,
+            defaultValue: declarationSig.parameters[index]?.defaultValue ?? '',
+            original: { index: index, parameter: parameter },
+            argument: ''
+        }));
+        this.returnType = signature.returnType;
+        this.originalReturnType = signature.normalizedReturnType;
+        this.isConstexpr = signature.isConstexpr;
+        this.isConsteval = signature.isConsteval;
+        this.isConst = signature.isConst;
+        this.isVolatile = signature.isVolatile;
+        this.refQualifier = signature.refQualifier;
+        this.noexcept = signature.noexcept;
+    }
+
+    /**
+     * The return type may be spelled differently in the declaration and the definition (such as when the definition
+     * qualifies a nested type), so it should only be updated if the user changed it.
+     */
+    get isReturnTypeChanged(): boolean {
+        return this.normalizedReturnType !== this.originalReturnType;
+    }
+
+    setReturnType(returnType?: string): void {
+        if (returnType !== undefined) {
+            this.returnType = returnType;
+        }
+    }
+
+    setQualifiers(qualifiers?: Qualifier[]): void {
+        if (!qualifiers) {
+            return;
+        }
+
+        this.isConst = qualifiers.includes('const');
+        this.isVolatile = qualifiers.includes('volatile');
+        this.refQualifier = qualifiers.includes('&&') ? '&&' : (qualifiers.includes('&') ? '&' : '');
+        if (!qualifiers.includes('noexcept')) {
+            this.noexcept = '';
+        } else if (this.normalizedNoexcept.length === 0) {
+            this.noexcept = ' noexcept';
+        }
+    }
+
+    renameParameter(parameter: ParameterChange, name?: string): void {
+        if (name !== undefined) {
+            parameter.name = name;
+        }
+    }
+
+    changeParameterType(parameter: ParameterChange, type?: string): void {
+        if (type !== undefined) {
+            parameter.type = type;
+        }
+    }
+
+    hasMisplacedDefaultValue(): boolean {
+        const firstDefaultIndex = this.parameters.findIndex(parameter => parameter.defaultValue.length !== 0);
+        return firstDefaultIndex !== -1
+            && this.parameters.slice(firstDefaultIndex).some(parameter => parameter.defaultValue.length === 0);
+    }
+
+    isEqual(original: FunctionSignature): boolean {
+        const originalParameters = getParameters(original);
+        return this.parameters.length === originalParameters.length
+            && this.parameters.every((parameter, index) => parameter.original?.index === index
+                    && !isRenamed(parameter) && !isRetyped(parameter))
+            && this.normalizedReturnType === original.normalizedReturnType
+            && this.isConst === original.isConst
+            && this.isVolatile === original.isVolatile
+            && this.refQualifier === original.refQualifier
+            && this.normalizedNoexcept === original.normalizedNoexcept;
+    }
+
+    format(): string {
+        const parameters = this.parameters.map(parameter => formatParameter(parameter)).join(', ');
+        const returnType = this.returnType.length !== 0 ? joinTypeAndName(this.returnType, this.name) : this.name;
+        const qualifiers = [
+            ...(this.isConst ? ['const'] : []),
+            ...(this.isVolatile ? ['volatile'] : []),
+            ...(this.refQualifier ? [this.refQualifier] : []),
+            ...(this.normalizedNoexcept ? [this.normalizedNoexcept] : [])
+        ].join(' ');
+
+        return `${returnType}(${parameters})` + (qualifiers ? ' ' + qualifiers : '');
+    }
+}
+
+/**
+ * Changes the parameters, return type, and qualifiers of a function according to the user's input, and updates the
+ * declaration, the definition, and the call sites of the function to match. promptForChanges makes the changes
+ * instead of prompting the user, and returns false to cancel.
+ */
+export async function changeSignature(
+    functionSymbol?: CSymbol,
+    sourceDoc?: SourceDocument,
+    promptForChanges: (changes: ChangedSignature, functionSymbol: CSymbol) => Promise<boolean> = promptUserForChanges
+): Promise<boolean | undefined> {
+    if (!functionSymbol || !sourceDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        sourceDoc = new SourceDocument(editor.document);
+        if (sourceDoc.languageId !== 'c' && sourceDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCOrCpp);
+            return;
+        }
+
+        const symbol = await sourceDoc.getSymbol(editor.selection.start);
+        if (!symbol?.isFunction()) {
+            logger.alertWarning(failure.noFunction);
+            return;
+        }
+        functionSymbol = symbol;
+    }
+
+    if (functionSymbol.isDestructor()) {
+        logger.alertWarning(failure.isDestructor);
+        return;
+    }
+
+    const signature = new FunctionSignature(functionSymbol);
+    if (signature.parameters.some(parameter => parameter.text === '...')) {
+        logger.alertWarning(failure.isVariadic);
+        return;
+    }
+
+    const p_callSites = findCallSites(functionSymbol, sourceDoc);
+
+    const linkedSymbol = await util.findLinkedFunction(functionSymbol);
+    const declaration = functionSymbol.isFunctionDeclaration() ? functionSymbol : linkedSymbol;
+    const definition = functionSymbol.isFunctionDefinition() ? functionSymbol : linkedSymbol;
+
+    const changes = new ChangedSignature(signature, new FunctionSignature(declaration ?? functionSymbol));
+    if (!await promptForChanges(changes, functionSymbol) || changes.isEqual(signature)) {
+        return;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    if (declaration) {
+        updateFunctionSignature(changes, declaration, true, workspaceEdit);
+    }
+    if (definition) {
+        updateFunctionSignature(changes, definition, !declaration, workspaceEdit);
+    }
+
+    const { callSites, skippedReferenceCount } = await p_callSites;
+    const renames = getRenamedParameters(changes, definition);
+    for (const callSite of callSites) {
+        const isInDefinition = !!definition && symbolContains(definition, callSite.uri, callSite.call.range);
+        const argumentsText = formatArguments(
+                changes, callSite.arguments, isInDefinition ? renames : new Map(), callSite.document);
+        workspaceEdit.replace(callSite.uri, callSite.call.argumentsRange, argumentsText);
+    }
+
+    if (definition && renames.size > 0) {
+        const recursiveCalls = callSites
+                .filter(callSite => symbolContains(definition, callSite.uri, callSite.call.range))
+                .map(callSite => callSite.call);
+        await renameParametersInBody(definition, renames, recursiveCalls, workspaceEdit);
+    }
+
+    const success = await vscode.workspace.applyEdit(workspaceEdit);
+    if (success && skippedReferenceCount > 0) {
+        logger.alertWarning(`${skippedReferenceCount} reference(s) to "${changes.name}" are not function calls that `
+                + 'could be updated, and must be updated manually.');
+    }
+
+    return success;
+}
+
+/**
+ * `f(void)` is a function without parameters in C.
+ */
+function getParameters(signature: FunctionSignature): readonly Parameter[] {
+    return signature.parameters.length === 1 && signature.parameters[0].normalizedType === 'void'
+            && signature.parameters[0].name.length === 0
+        ? []
+        : signature.parameters;
+}
+
+function isRenamed(parameter: ParameterChange): boolean {
+    return parameter.original !== undefined && parameter.name !== parameter.original.parameter.name;
+}
+
+function isRetyped(parameter: ParameterChange): boolean {
+    return parameter.original !== undefined && parameter.type !== parameter.original.parameter.type;
+}
+
+function joinTypeAndName(type: string, name: string): string {
+    return /[\w\d_>]$/.test(type) && name.length !== 0 ? type + ' ' + name : type + name;
+}
+
+function formatParameter(parameter: ParameterChange): string {
+    return parameter.original && !isRetyped(parameter)
+        ? parameter.original.parameter.withName(parameter.name)
+        : joinTypeAndName(parameter.type, parameter.name);
+}
+
+function symbolContains(symbol: CSymbol, uri: vscode.Uri, range: vscode.Range): boolean {
+    return symbol.uri.fsPath === uri.fsPath && symbol.range.contains(range);
+}
+
+enum ChangeKind {
+    Apply,
+    AddParameter,
+    EditParameter,
+    ReturnType,
+    Qualifiers
+}
+
+interface ChangeItem extends vscode.QuickPickItem {
+    kind: ChangeKind;
+    parameter?: ParameterChange;
+}
+
+/**
+ * Repeatedly prompts the user for a change to make to the signature, until they select "Apply Changes". Returns
+ * false if the user cancelled.
+ */
+async function promptUserForChanges(changes: ChangedSignature, functionSymbol: CSymbol): Promise<boolean> {
+    const isConstructor = functionSymbol.isConstructor();
+    const isNonStaticMember = !isConstructor && !functionSymbol.isStatic()
+            && (!!functionSymbol.parent?.isClassType() || !!await functionSymbol.getParentClass());
+
+    let selectedItem: ChangeItem | undefined;
+    do {
+        const changeItems: ChangeItem[] = [
+            { label: '$(check) Apply Changes', detail: changes.format(), kind: ChangeKind.Apply },
+            ...changes.parameters.map(parameter => ({
+                label: '$(symbol-parameter) ' + formatParameter(parameter),
+                description: describeParameter(parameter),
+                kind: ChangeKind.EditParameter,
+                parameter: parameter
+            })),
+            { label: '$(add) Add Parameter', kind: ChangeKind.AddParameter }
+        ];
+        if (!isConstructor) {
+            changeItems.push({
+                label: 'Change Return Type',
+                description: changes.returnType,
+                kind: ChangeKind.ReturnType
+            });
+        }
+        changeItems.push({ label: 'Change Qualifiers', kind: ChangeKind.Qualifiers });
+
+        selectedItem = await showSingleQuickPick(changeItems, {
+            title: `Change the signature of "${changes.name}"`,
+            ignoreFocusOut: true
+        });
+
+        if (!selectedItem) {
+            return false;
+        }
+
+        switch (selectedItem.kind) {
+        case ChangeKind.AddParameter:
+            await promptUserForNewParameter(changes);
+            break;
+        case ChangeKind.EditParameter:
+            await promptUserForParameterChange(changes, selectedItem.parameter!);
+            break;
+        case ChangeKind.ReturnType:
+            changes.setReturnType(await promptUserForType('Enter the new return type', changes.returnType));
+            break;
+        case ChangeKind.Qualifiers:
+            changes.setQualifiers(await promptUserForQualifiers(changes, isNonStaticMember));
+            break;
+        }
+    } while (selectedItem.kind !== ChangeKind.Apply || !validateChanges(changes));
+
+    return true;
+}
+
+function validateChanges(changes: ChangedSignature): boolean {
+    if (changes.hasMisplacedDefaultValue()) {
+        logger.alertWarning(failure.misplacedDefaultValue);
+        return false;
+    }
+    return true;
+}
+
+function describeParameter(parameter: ParameterChange): string {
+    if (!parameter.original) {
+        return `New, called with "${parameter.argument}"`;
+    } else if (isRenamed(parameter) || isRetyped(parameter)) {
+        return `Changed from "${parameter.original.parameter.withName()}"`;
+    }
+    return '';
+}
+
+async function promptUserForNewParameter(changes: ChangedSignature): Promise<void> {
+    const type = await promptUserForType('Enter the type of the new parameter', '');
+    if (type === undefined) {
+        return;
+    }
+
+    const name = await promptUserForName(changes, 'Enter the name of the new parameter', '');
+    if (name === undefined) {
+        return;
+    }
+
+    const argument = await vscode.window.showInputBox({
+        prompt: `Enter the argument to pass to "${name}" at existing call sites`,
+        ignoreFocusOut: true,
+        validateInput: input => input.trim().length === 0 ? 'The argument cannot be empty.' : undefined
+    });
+    if (argument === undefined) {
+        return;
+    }
+
+    changes.parameters.push({ type: type, name: name, defaultValue: '', argument: argument.trim() });
+}
+
+enum ParameterChangeKind {
+    Rename,
+    ChangeType,
+    MoveUp,
+    MoveDown,
+    Remove
+}
+
+interface ParameterChangeItem extends vscode.QuickPickItem {
+    kind: ParameterChangeKind;
+}
+
+async function promptUserForParameterChange(changes: ChangedSignature, parameter: ParameterChange): Promise<void> {
+    const index = changes.parameters.indexOf(parameter);
+    const parameterItems: ParameterChangeItem[] = [
+        { label: 'Rename', kind: ParameterChangeKind.Rename },
+        { label: 'Change Type', kind: ParameterChangeKind.ChangeType }
+    ];
+    if (index > 0) {
+        parameterItems.push({ label: 'Move Up', kind: ParameterChangeKind.MoveUp });
+    }
+    if (index < changes.parameters.length - 1) {
+        parameterItems.push({ label: 'Move Down', kind: ParameterChangeKind.MoveDown });
+    }
+    parameterItems.push({ label: 'Remove', kind: ParameterChangeKind.Remove });
+
+    const selectedItem = await showSingleQuickPick(parameterItems, {
+        title: `Change the parameter "${formatParameter(parameter)}"`,
+        ignoreFocusOut: true
+    });
+
+    switch (selectedItem?.kind) {
+    case ParameterChangeKind.Rename:
+        changes.renameParameter(
+                parameter, await promptUserForName(changes, 'Enter the new name of the parameter', parameter.name));
+        break;
+    case ParameterChangeKind.ChangeType:
+        changes.changeParameterType(
+                parameter, await promptUserForType('Enter the new type of the parameter', parameter.type));
+        break;
+    case ParameterChangeKind.MoveUp:
+        changes.parameters.splice(index - 1, 2, parameter, changes.parameters[index - 1]);
+        break;
+    case ParameterChangeKind.MoveDown:
+        changes.parameters.splice(index, 2, changes.parameters[index + 1], parameter);
+        break;
+    case ParameterChangeKind.Remove:
+        changes.parameters.splice(index, 1);
+        break;
+    }
+}
+
+async function promptUserForType(prompt: string, value: string): Promise<string | undefined> {
+    const type = await vscode.window.showInputBox({
+        prompt: prompt,
+        value: value,
+        ignoreFocusOut: true,
+        validateInput: input => input.trim().length === 0 ? 'The type cannot be empty.' : undefined
+    });
+    return type?.trim();
+}
+
+async function promptUserForName(
+    changes: ChangedSignature, prompt: string, currentName: string
+): Promise<string | undefined> {
+    const name = await vscode.window.showInputBox({
+        prompt: prompt,
+        value: currentName,
+        ignoreFocusOut: true,
+        validateInput: input => {
+            input = input.trim();
+            if (!/^[A-Za-z_][\w\d_]*$/.test(input)) {
+                return 'The name must be a valid identifier.';
+            } else if (input !== currentName && changes.parameters.some(parameter => parameter.name === input)) {
+                return `A parameter named "${input}" already exists.`;
+            }
+        }
+    });
+    return name?.trim();
+}
+
+interface QualifierItem extends vscode.QuickPickItem {
+    qualifier: Qualifier;
+}
+
+async function promptUserForQualifiers(
+    changes: ChangedSignature, isNonStaticMember: boolean
+): Promise<Qualifier[] | undefined> {
+    const qualifierItems: QualifierItem[] = [];
+    if (isNonStaticMember) {
+        qualifierItems.push(
+            { label: 'const', qualifier: 'const', picked: changes.isConst },
+            { label: 'volatile', qualifier: 'volatile', picked: changes.isVolatile },
+            { label: '&', description: 'lvalue ref-qualifier', qualifier: '&', picked: changes.refQualifier === '&' },
+            { label: '&&', description: 'rvalue ref-qualifier', qualifier: '&&', picked: changes.refQualifier === '&&' }
+        );
+    }
+    qualifierItems.push({ label: 'noexcept', qualifier: 'noexcept', picked: changes.normalizedNoexcept.length !== 0 });
+
+    const selectedItems = await showMultiQuickPick(qualifierItems, {
+        title: `Select the qualifiers of "${changes.name}"`,
+        ignoreFocusOut: true,
+        onWillAccept: quickPick => {
+            const refQualifierCount = quickPick.selectedItems.filter(item => item.qualifier.includes('&')).length;
+            if (refQualifierCount > 1) {
+                quickPick.placeholder = 'Select at most one ref-qualifier.';
+                return false;
+            }
+            return true;
+        }
+    });
+
+    return selectedItems?.map(item => item.qualifier);
+}
+
+/**
+ * Existing parameters keep the text that they have in functionSymbol (which may differ between the declaration and
+ * the definition), unless their type was changed.
+ */
+function updateFunctionSignature(
+    changes: ChangedSignature,
+    functionSymbol: CSymbol,
+    includeDefaultValues: boolean,
+    workspaceEdit: vscode.WorkspaceEdit
+): void {
+    const sourceDoc = functionSymbol.document;
+    const signature = new FunctionSignature(functionSymbol);
+
+    const parameters = changes.parameters.map(parameter => {
+        const original = parameter.original ? signature.parameters[parameter.original.index] : undefined;
+        let parameterText: string;
+        if (original && !isRetyped(parameter)) {
+            parameterText = isRenamed(parameter) ? original.withName(parameter.name) : withoutDefaultValue(original);
+        } else {
+            parameterText = joinTypeAndName(parameter.type, parameter.name);
+        }
+        return includeDefaultValues && parameter.defaultValue
+            ? parameterText + ' = ' + parameter.defaultValue
+            : parameterText;
+    });
+
+    const separator = !signature.parameters.range.isSingleLine && signature.parameters.length > 0
+            ? ',' + sourceDoc.endOfLine + ' '.repeat(signature.parameters[0].range.start.character)
+            : ', ';
+
+    workspaceEdit.replace(sourceDoc.uri, signature.parameters.range, parameters.join(separator));
+    if (changes.isReturnTypeChanged) {
+        updateReturnType(changes, signature, sourceDoc, workspaceEdit);
+    }
+    updateSpecifiers(changes, signature, sourceDoc, workspaceEdit);
+}
+
+function withoutDefaultValue(parameter: Parameter): string {
+    return parameter.defaultValue.length !== 0
+        ? parameter.text.slice(0, -parameter.defaultValue.length).replace(/\s*=\s*$/, '')
+        : parameter.text;
+}
+
+interface CallSite {
+    uri: vscode.Uri;
+    document: SourceDocument;
+    call: FunctionCall;
+    arguments: ParameterList;
+}
+
+/**
+ * Finds the calls to functionSymbol via the reference provider. References that are not calls within a function
+ * body, and calls nested in the arguments of another call, cannot be updated and are counted as skipped.
+ */
+async function findCallSites(
+    functionSymbol: CSymbol, sourceDoc: SourceDocument
+): Promise<{ callSites: CallSite[]; skippedReferenceCount: number }> {
+    const referenceResults = await vscode.commands.executeCommand<util.LocationType[]>(
+            'vscode.executeReferenceProvider', functionSymbol.uri, functionSymbol.selectionRange.start);
+    const references = util.makeLocationArray(referenceResults);
+
+    const documents = new Map<string, SourceDocument>([[sourceDoc.uri.fsPath, sourceDoc]]);
+    const callSites: CallSite[] = [];
+    let skippedReferenceCount = 0;
+
+    for (const reference of references) {
+        let document = documents.get(reference.uri.fsPath);
+        if (!document) {
+            document = await SourceDocument.open(reference.uri);
+            documents.set(reference.uri.fsPath, document);
+        }
+
+        const symbol = await document.getSymbol(reference.range.start);
+        if (symbol?.isFunction() && symbol.selectionRange.contains(reference.range)) {
+            continue;   // The reference is the declaration or definition of the function.
+        }
+
+        const call = symbol?.isFunctionDefinition() ? findFunctionCall(symbol, reference.range.start) : undefined;
+        if (!call) {
+            ++skippedReferenceCount;
+            continue;
+        }
+
+        callSites.push({
+            uri: reference.uri,
+            document: document,
+            call: call,
+            arguments: parseParameterList(document, call.argumentsRange)
+        });
+    }
+
+    const outerCallSites = callSites.filter(callSite => !callSites.some(other => other !== callSite
+            && other.uri.fsPath === callSite.uri.fsPath && other.call.argumentsRange.contains(callSite.call.range)));
+    skippedReferenceCount += callSites.length - outerCallSites.length;
+
+    return { callSites: outerCallSites, skippedReferenceCount: skippedReferenceCount };
+}
+
+/**
+ * Maps the names of the renamed parameters in definition (which may differ from the names in the declaration) to
+ * their new names.
+ */
+function getRenamedParameters(changes: ChangedSignature, definition?: CSymbol): Map<string, string> {
+    const renames = new Map<string, string>();
+    if (!definition) {
+        return renames;
+    }
+
+    const definitionSig = new FunctionSignature(definition);
+    changes.parameters.forEach(parameter => {
+        const originalName = parameter.original ? definitionSig.parameters[parameter.original.index]?.name : undefined;
+        if (originalName && isRenamed(parameter) && originalName !== parameter.name) {
+            renames.set(originalName, parameter.name);
+        }
+    });
+    return renames;
+}
+
+/**
+ * Arguments for parameters that were omitted at the call site (because they have default values) are only inserted
+ * if a following argument is passed.
+ */
+function formatArguments(
+    changes: ChangedSignature, callArguments: ParameterList, renames: Map<string, string>, document: SourceDocument
+): string {
+    const argumentTexts = changes.parameters.map(parameter => {
+        if (!parameter.original) {
+            return parameter.argument;
+        } else if (parameter.original.index < callArguments.length) {
+            const argument = callArguments[parameter.original.index];
+            return renameIdentifiers(argument.text, parse.maskNonSourceText(argument.text), renames);
+        }
+    });
+
+    while (argumentTexts.length > 0 && argumentTexts[argumentTexts.length - 1] === undefined) {
+        argumentTexts.pop();
+    }
+
+    const separator = !callArguments.range.isSingleLine && callArguments.length > 0
+            ? ',' + document.endOfLine + ' '.repeat(callArguments[0].range.start.character)
+            : ', ';
+
+    return argumentTexts.map((argument, index) => argument ?? changes.parameters[index].defaultValue).join(separator);
+}
+
+/**
+ * Renames the uses of parameters in the body (and member initializer list) of definition. Uses within the arguments
+ * of recursive calls are skipped, since those arguments are replaced along with the call. Identifiers are only renamed
+ * if they go to the definition of a parameter, so that locals that shadow a parameter keep their names.
+ */
+async function renameParametersInBody(
+    definition: CSymbol,
+    renames: Map<string, string>,
+    recursiveCalls: FunctionCall[],
+    workspaceEdit: vscode.WorkspaceEdit
+): Promise<void> {
+    const document = definition.document;
+    const startOffset = definition.startOffset();
+    const declarationEndIndex = document.offsetAt(definition.declarationEnd()) - startOffset;
+    const bodyStartIndex = document.offsetAt(definition.bodyStart()) - startOffset;
+    const maskedText = definition.parsableText;
+    const parametersRange = new FunctionSignature(definition).parameters.range;
+
+    const uses: { range: vscode.Range; newName: string }[] = [];
+    for (const match of maskedText.slice(declarationEndIndex).matchAll(/(?<![\w\d_.]|->|::)[A-Za-z_][\w\d_]*\b/g)) {
+        const newName = renames.get(match[0]);
+        if (match.index === undefined || newName === undefined) {
+            continue;
+        }
+
+        const index = declarationEndIndex + match.index;
+        // In a member initializer list, the name of the member being initialized might match the parameter.
+        if (index < bodyStartIndex && /^\s*[({]/.test(maskedText.slice(index + match[0].length))) {
+            continue;
+        }
+
+        const range = document.rangeAt(startOffset + index, startOffset + index + match[0].length);
+        if (!recursiveCalls.some(call => call.argumentsRange.contains(range))) {
+            uses.push({ range: range, newName: newName });
+        }
+    }
+
+    const useLocations = await Promise.all(uses.map(use => document.findDefinitions(use.range.start)));
+    uses.forEach((use, index) => {
+        if (useLocations[index].some(location => location.uri.fsPath === document.uri.fsPath
+                && parametersRange.contains(location.range))) {
+            workspaceEdit.replace(document.uri, use.range, use.newName);
+        }
+    });
+}
+
+function renameIdentifiers(text: string, maskedText: string, renames: Map<string, string>): string {
+    let renamedText = '';
+    let lastIndex = 0;
+    for (const match of maskedText.matchAll(/(?<![\w\d_.]|->|::)[A-Za-z_][\w\d_]*\b/g)) {
+        const newName = renames.get(match[0]);
+        if (match.index !== undefined && newName !== undefined) {
+            renamedText += text.slice(lastIndex, match.index) + newName;
+            lastIndex = match.index + match[0].length;
+        }
+    }
+    return renamedText + text.slice(lastIndex);
+}
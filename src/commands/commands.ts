@@ -2,16 +2,36 @@ import * as vscode from 'vscode';
 import {
     addDefinitionInSourceFile, addDefinitionInCurrentFile, addDefinitions, addDefinition
 } from './addDefinition';
-import { addDeclaration } from './addDeclaration';
+import { addStaticMemberDefinition } from './addStaticMemberDefinition';
+import { findUndefinedFunctions, addDefinitionsForUndefinedFunctions } from './findUndefinedFunctions';
+import { addDeclaration, addMissingDeclarations } from './addDeclaration';
 import { updateSignature } from './updateSignature';
-import { moveDefinitionToMatchingSourceFile, moveDefinitionIntoOrOutOfClass } from './moveDefinition';
+import { changeSignature } from './changeSignature';
+import {
+    convertToTrailingReturnType, convertToLeadingReturnType, convertReturnTypesInFile, convertReturnTypesInWorkspace
+} from './convertReturnType';
+import { toggleSpecifier } from './toggleSpecifier';
+import {
+    moveDefinitionToMatchingSourceFile, moveDefinitionToFile, moveDefinitionIntoOrOutOfClass, moveDefinitionsOutOfClass
+} from './moveDefinition';
+import { extractClass } from './extractClass';
+import { extractFunction } from './extractFunction';
+import { inlineFunction } from './inlineFunction';
 import {
     generateGetterSetter, generateGetter, generateSetter,
     generateGetterSetterFor, generateGetterFor, generateSetterFor
 } from './generateGetterSetter';
+import { generateConstructor } from './generateConstructor';
+import { generateSpecialMembers } from './generateSpecialMembers';
+import { overrideVirtualFunctions } from './overrideVirtualFunctions';
 import {
-    generateEqualityOperators, generateRelationalOperators, generateStreamOutputOperator
+    generateEqualityOperators, generateRelationalOperators, generateThreeWayComparison, generateStreamOutputOperator,
+    generateStreamInputOperator, generateArithmeticOperators
 } from './generateOperators';
+import { generateSwap } from './generateSwap';
+import { generateHashSpecialization } from './generateHashSpecialization';
+import { generateEnumToString } from './generateEnumToString';
+import { addMissingCaseLabels } from './addMissingCaseLabels';
 import { createMatchingSourceFile } from './createSourceFile';
 import { addHeaderGuard } from './addHeaderGuard';
 import { addInclude } from './addInclude';
@@ -24,19 +44,44 @@ export type CmanticCommandId =
     | 'cmantic.addDefinitionInCurrentFile'
     | 'cmantic.addDefinitions'
     | 'cmantic.addDefinition'
+    | 'cmantic.addStaticMemberDefinition'
+    | 'cmantic.findUndefinedFunctions'
+    | 'cmantic.addDefinitionsForUndefinedFunctions'
     | 'cmantic.addDeclaration'
+    | 'cmantic.addMissingDeclarations'
     | 'cmantic.updateSignature'
+    | 'cmantic.changeSignature'
+    | 'cmantic.convertToTrailingReturnType'
+    | 'cmantic.convertToLeadingReturnType'
+    | 'cmantic.convertReturnTypesInFile'
+    | 'cmantic.convertReturnTypesInWorkspace'
+    | 'cmantic.toggleSpecifier'
     | 'cmantic.moveDefinitionToMatchingSourceFile'
+    | 'cmantic.moveDefinitionToFile'
     | 'cmantic.moveDefinitionIntoOrOutOfClass'
+    | 'cmantic.moveDefinitionsOutOfClass'
+    | 'cmantic.extractClass'
+    | 'cmantic.extractFunction'
+    | 'cmantic.inlineFunction'
     | 'cmantic.generateGetterSetter'
     | 'cmantic.generateGetter'
     | 'cmantic.generateSetter'
     | 'cmantic.generateGetterSetterFor'
     | 'cmantic.generateGetterFor'
     | 'cmantic.generateSetterFor'
+    | 'cmantic.generateConstructor'
+    | 'cmantic.generateSpecialMembers'
+    | 'cmantic.overrideVirtualFunctions'
     | 'cmantic.generateEqualityOperators'
     | 'cmantic.generateRelationalOperators'
+    | 'cmantic.generateThreeWayComparison'
+    | 'cmantic.generateArithmeticOperators'
     | 'cmantic.generateStreamOutputOperator'
+    | 'cmantic.generateStreamInputOperator'
+    | 'cmantic.generateSwap'
+    | 'cmantic.generateHashSpecialization'
+    | 'cmantic.generateEnumToString'
+    | 'cmantic.addMissingCaseLabels'
     | 'cmantic.createMatchingSourceFile'
     | 'cmantic.addHeaderGuard'
     | 'cmantic.addInclude'
@@ -56,19 +101,44 @@ export const commandHandlers: CommandHandlerMap = {
     'cmantic.addDefinitionInCurrentFile': addDefinitionInCurrentFile,
     'cmantic.addDefinitions': addDefinitions,
     'cmantic.addDefinition': addDefinition,
+    'cmantic.addStaticMemberDefinition': addStaticMemberDefinition,
+    'cmantic.findUndefinedFunctions': findUndefinedFunctions,
+    'cmantic.addDefinitionsForUndefinedFunctions': addDefinitionsForUndefinedFunctions,
     'cmantic.addDeclaration': addDeclaration,
+    'cmantic.addMissingDeclarations': addMissingDeclarations,
     'cmantic.updateSignature': updateSignature,
+    'cmantic.changeSignature': changeSignature,
+    'cmantic.convertToTrailingReturnType': convertToTrailingReturnType,
+    'cmantic.convertToLeadingReturnType': convertToLeadingReturnType,
+    'cmantic.convertReturnTypesInFile': convertReturnTypesInFile,
+    'cmantic.convertReturnTypesInWorkspace': convertReturnTypesInWorkspace,
+    'cmantic.toggleSpecifier': toggleSpecifier,
     'cmantic.moveDefinitionToMatchingSourceFile': moveDefinitionToMatchingSourceFile,
+    'cmantic.moveDefinitionToFile': moveDefinitionToFile,
     'cmantic.moveDefinitionIntoOrOutOfClass': moveDefinitionIntoOrOutOfClass,
+    'cmantic.moveDefinitionsOutOfClass': moveDefinitionsOutOfClass,
+    'cmantic.extractClass': extractClass,
+    'cmantic.extractFunction': extractFunction,
+    'cmantic.inlineFunction': inlineFunction,
     'cmantic.generateGetterSetter': generateGetterSetter,
     'cmantic.generateGetter': generateGetter,
     'cmantic.generateSetter': generateSetter,
     'cmantic.generateGetterSetterFor': generateGetterSetterFor,
     'cmantic.generateGetterFor': generateGetterFor,
     'cmantic.generateSetterFor': generateSetterFor,
+    'cmantic.generateConstructor': generateConstructor,
+    'cmantic.generateSpecialMembers': generateSpecialMembers,
+    'cmantic.overrideVirtualFunctions': overrideVirtualFunctions,
     'cmantic.generateEqualityOperators': generateEqualityOperators,
     'cmantic.generateRelationalOperators': generateRelationalOperators,
+    'cmantic.generateThreeWayComparison': generateThreeWayComparison,
+    'cmantic.generateArithmeticOperators': generateArithmeticOperators,
     'cmantic.generateStreamOutputOperator': generateStreamOutputOperator,
+    'cmantic.generateStreamInputOperator': generateStreamInputOperator,
+    'cmantic.generateSwap': generateSwap,
+    'cmantic.generateHashSpecialization': generateHashSpecialization,
+    'cmantic.generateEnumToString': generateEnumToString,
+    'cmantic.addMissingCaseLabels': addMissingCaseLabels,
     'cmantic.createMatchingSourceFile': createMatchingSourceFile,
     'cmantic.addHeaderGuard': addHeaderGuard,
     'cmantic.addInclude': addInclude,
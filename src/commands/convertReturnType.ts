@@ -0,0 +1,361 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import FunctionSignature from '../FunctionSignature';
+import { logger } from '../extension';
+import { showSingleQuickPick } from '../QuickPick';
+
+
+export const title = {
+    toTrailing: 'Convert to Trailing Return Type',
+    toLeading: 'Convert to Leading Return Type',
+    inFile: 'Convert Return Types in File',
+    inWorkspace: 'Convert Return Types in Workspace'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, trailing return types are only supported in C++.',
+    noWorkspaceFolder: 'No workspace folder is open.',
+    noFunction: 'No function declaration or definition detected.',
+    noReturnType: 'This function does not have a return type.',
+    deducedReturnType: 'The return type of this function is deduced.',
+    isLeading: 'This function already has a leading return type.',
+    isTrailing: 'This function already has a trailing return type.',
+    containsDecltype: 'Return types containing "decltype" may refer to the parameters, so they must be trailing.',
+    noFunctionsToConvert: 'No functions were found that need to be converted.'
+};
+
+export type ReturnTypeStyle = 'leading' | 'trailing';
+
+export async function convertToTrailingReturnType(
+    functionSymbol?: CSymbol,
+    sourceDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    return convertReturnType('trailing', functionSymbol, sourceDoc);
+}
+
+export async function convertToLeadingReturnType(
+    functionSymbol?: CSymbol,
+    sourceDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    return convertReturnType('leading', functionSymbol, sourceDoc);
+}
+
+/**
+ * Converts the return type of every function in sourceDoc to the given style, along with the linked declarations
+ * and definitions of those functions in other files. The user is prompted for the style if it is not given.
+ */
+export async function convertReturnTypesInFile(
+    sourceDoc?: SourceDocument,
+    style?: ReturnTypeStyle
+): Promise<boolean | undefined> {
+    if (!sourceDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+        sourceDoc = new SourceDocument(editor.document);
+    }
+
+    if (sourceDoc.languageId !== 'cpp') {
+        logger.alertWarning(failure.notCpp);
+        return;
+    }
+
+    const targetStyle = style ?? await promptUserForReturnTypeStyle();
+    if (!targetStyle) {
+        return;
+    }
+
+    const functions = (await sourceDoc.allFunctions())
+            .filter(functionSymbol => canConvert(functionSymbol, targetStyle));
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const convertedFunctions = new Set<string>();
+
+    for (let i = 0; i < functions.length; i += 10) {
+        const chunk = functions.slice(i, i + 10);
+        const linkedFunctions = await Promise.all(
+                chunk.map(functionSymbol => util.findLinkedFunction(functionSymbol)));
+        for (const functionSymbol of [...chunk, ...linkedFunctions]) {
+            if (functionSymbol && !convertedFunctions.has(functionKey(functionSymbol))
+                    && canConvert(functionSymbol, targetStyle)) {
+                await addConversionToWorkspaceEdit(functionSymbol, targetStyle, workspaceEdit);
+                convertedFunctions.add(functionKey(functionSymbol));
+            }
+        }
+    }
+
+    if (convertedFunctions.size === 0) {
+        logger.alertInformation(failure.noFunctionsToConvert);
+        return;
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Converts the return type of every function in the C++ files of the workspace to the given style. Since every file
+ * is visited, declarations and definitions are converted without having to be linked. The user is prompted for the
+ * style if it is not given.
+ */
+export async function convertReturnTypesInWorkspace(style?: ReturnTypeStyle): Promise<boolean | undefined> {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+        logger.alertWarning(failure.noWorkspaceFolder);
+        return;
+    }
+
+    const targetStyle = style ?? await promptUserForReturnTypeStyle();
+    if (!targetStyle) {
+        return;
+    }
+
+    const uris = await findWorkspaceFiles(vscode.workspace.workspaceFolders);
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    let convertedFunctionCount = 0;
+    let userCancelledOperation = false;
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Converting return types',
+        cancellable: true
+    }, async (progress, token) => {
+        const increment = (1 / uris.length) * 100;
+
+        for (let i = 0; i < uris.length; ++i) {
+            if (token.isCancellationRequested) {
+                userCancelledOperation = true;
+                return;
+            }
+
+            progress.report({ message: `${i}/${uris.length} files scanned`, increment: increment });
+
+            const sourceDoc = await SourceDocument.open(uris[i]);
+            if (sourceDoc.languageId !== 'cpp') {
+                continue;
+            }
+
+            for (const functionSymbol of await sourceDoc.allFunctions()) {
+                if (canConvert(functionSymbol, targetStyle)) {
+                    await addConversionToWorkspaceEdit(functionSymbol, targetStyle, workspaceEdit);
+                    ++convertedFunctionCount;
+                }
+            }
+        }
+    });
+
+    if (userCancelledOperation) {
+        return;
+    } else if (convertedFunctionCount === 0) {
+        logger.alertInformation(failure.noFunctionsToConvert);
+        return;
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Returns the reason that the return type of functionSymbol cannot be converted to the given style, or undefined if
+ * it can be converted.
+ */
+export function getConversionFailure(functionSymbol: CSymbol, style: ReturnTypeStyle): string | undefined {
+    if (!functionSymbol.isFunction()) {
+        return failure.noFunction;
+    } else if (functionSymbol.isConstructor() || functionSymbol.isDestructor()
+            || /^operator\s+(?!new\b|delete\b)[\w_]/.test(functionSymbol.name)) {
+        return failure.noReturnType;
+    }
+
+    const signature = new FunctionSignature(functionSymbol);
+    if (signature.returnType.trim().length === 0) {
+        return failure.noReturnType;
+    } else if (style === 'trailing') {
+        if (signature.hasTrailingReturnType) {
+            return failure.isTrailing;
+        } else if (/^(auto|decltype\s*\(\s*auto\s*\))$/.test(signature.returnType.trim())) {
+            return failure.deducedReturnType;
+        }
+    } else if (!signature.hasTrailingReturnType) {
+        return failure.isLeading;
+    } else if (/\bdecltype\b/.test(signature.returnType)) {
+        return failure.containsDecltype;
+    } else if (!getLeadingAutoRange(functionSymbol)) {
+        return failure.deducedReturnType;
+    }
+}
+
+function canConvert(functionSymbol: CSymbol, style: ReturnTypeStyle): boolean {
+    return getConversionFailure(functionSymbol, style) === undefined;
+}
+
+async function convertReturnType(
+    style: ReturnTypeStyle,
+    functionSymbol?: CSymbol,
+    sourceDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!functionSymbol || !sourceDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        sourceDoc = new SourceDocument(editor.document);
+        if (sourceDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await sourceDoc.getSymbol(editor.selection.start);
+        if (!symbol?.isFunction()) {
+            logger.alertWarning(failure.noFunction);
+            return;
+        }
+        functionSymbol = symbol;
+    }
+
+    const conversionFailure = getConversionFailure(functionSymbol, style);
+    if (conversionFailure) {
+        logger.alertWarning(conversionFailure);
+        return;
+    }
+
+    const linkedFunction = await util.findLinkedFunction(functionSymbol);
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    await addConversionToWorkspaceEdit(functionSymbol, style, workspaceEdit);
+    if (linkedFunction && canConvert(linkedFunction, style)) {
+        await addConversionToWorkspaceEdit(linkedFunction, style, workspaceEdit);
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+async function addConversionToWorkspaceEdit(
+    functionSymbol: CSymbol,
+    style: ReturnTypeStyle,
+    workspaceEdit: vscode.WorkspaceEdit
+): Promise<void> {
+    const signature = new FunctionSignature(functionSymbol);
+    const sourceDoc = functionSymbol.document;
+
+    if (style === 'trailing') {
+        workspaceEdit.replace(sourceDoc.uri, signature.returnTypeRange, 'auto ');
+        workspaceEdit.insert(sourceDoc.uri, getTrailingReturnPosition(signature, sourceDoc),
+                ' -> ' + signature.returnType.trim());
+        return;
+    }
+
+    const leadingAutoRange = getLeadingAutoRange(functionSymbol);
+    if (!leadingAutoRange) {
+        return;
+    }
+
+    const returnType = await qualifyNestedReturnType(functionSymbol, signature.returnType);
+    workspaceEdit.replace(sourceDoc.uri, leadingAutoRange, returnType);
+
+    // Remove the arrow and the return type, along with the whitespace that precedes them.
+    const trailingSpecifiers = sourceDoc.getText(signature.trailingSpecifierRange);
+    const trailingReturnStart = sourceDoc.positionAt(
+            sourceDoc.offsetAt(signature.trailingSpecifierRange.start) + trailingSpecifiers.trimEnd().length);
+    workspaceEdit.delete(sourceDoc.uri, new vscode.Range(trailingReturnStart, signature.returnTypeRange.end));
+}
+
+/**
+ * A trailing return type follows the cv-qualifiers, ref-qualifier, and exception specification, but precedes
+ * override/final, pure-specifiers, and requires-clauses.
+ */
+function getTrailingReturnPosition(signature: FunctionSignature, sourceDoc: SourceDocument): vscode.Position {
+    const trailingText = sourceDoc.getText(signature.trailingSpecifierRange);
+    const maskedTrailingText = parse.maskParentheses(parse.maskNonSourceText(trailingText));
+    const endIndex = maskedTrailingText.search(/\b(override|final|requires)\b|=/);
+    const specifiersText = endIndex !== -1 ? maskedTrailingText.slice(0, endIndex) : maskedTrailingText;
+
+    let specifiersEndIndex = 0;
+    for (const match of specifiersText.matchAll(/\b(const|volatile|noexcept|throw)\b(\s*\(\s*\))?|&{1,2}/g)) {
+        if (match.index !== undefined) {
+            specifiersEndIndex = match.index + match[0].length;
+        }
+    }
+
+    return sourceDoc.positionAt(sourceDoc.offsetAt(signature.trailingSpecifierRange.start) + specifiersEndIndex);
+}
+
+function getLeadingAutoRange(functionSymbol: CSymbol): vscode.Range | undefined {
+    const sourceDoc = functionSymbol.document;
+    const scopeStringStart = functionSymbol.scopeStringStart();
+    const leadingText = sourceDoc.getText(new vscode.Range(functionSymbol.declarationStart(), scopeStringStart));
+    const leadingType = parse.getLeadingReturnType(leadingText);
+    if (leadingType.trim() !== 'auto') {
+        return;
+    }
+
+    const autoStart = sourceDoc.positionAt(sourceDoc.offsetAt(scopeStringStart) - leadingType.length);
+    return new vscode.Range(autoStart, autoStart.translate(0, 'auto'.length));
+}
+
+/**
+ * Names that are declared in the class are in scope for the trailing return type of an out-of-class member function
+ * definition, but not for a leading return type, so they must be qualified when the return type is moved.
+ */
+async function qualifyNestedReturnType(functionSymbol: CSymbol, returnType: string): Promise<string> {
+    returnType = returnType.trim();
+    if (!functionSymbol.immediateScope()) {
+        return returnType;
+    }
+
+    const typeNameMatch = returnType.match(/^((\b(const|volatile)\b\s*)*)([\w_][\w\d_]*)\b/);
+    const parentClass = await functionSymbol.getParentClass();
+    if (!typeNameMatch || !parentClass) {
+        return returnType;
+    }
+
+    const typeName = typeNameMatch[4];
+    const isNestedType = parentClass.children.some(child => {
+        const member = new CSymbol(child, parentClass.document);
+        return member.name === typeName
+            && (member.isClassType() || member.isEnum() || member.mightBeTypedefOrTypeAlias());
+    });
+    if (!isNestedType) {
+        return returnType;
+    }
+
+    const sourceDoc = functionSymbol.document;
+    const scopeString = sourceDoc.getText(
+            new vscode.Range(functionSymbol.scopeStringStart(), functionSymbol.selectionRange.start)).trim();
+    const typenameKeyword = scopeString.includes('<') ? 'typename ' : '';
+
+    return typeNameMatch[1] + typenameKeyword + scopeString + returnType.slice(typeNameMatch[1].length);
+}
+
+function functionKey(functionSymbol: CSymbol): string {
+    return functionSymbol.uri.toString() + ':' + functionSymbol.document.offsetAt(functionSymbol.range.start);
+}
+
+async function promptUserForReturnTypeStyle(): Promise<ReturnTypeStyle | undefined> {
+    const styleItems: (vscode.QuickPickItem & { style: ReturnTypeStyle })[] = [
+        { label: 'Leading return types', description: 'int f()', style: 'leading' },
+        { label: 'Trailing return types', description: 'auto f() -> int', style: 'trailing' }
+    ];
+
+    const selectedItem = await showSingleQuickPick(styleItems, { title: 'Select the return type style to convert to' });
+    return selectedItem?.style;
+}
+
+async function findWorkspaceFiles(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<vscode.Uri[]> {
+    const p_uris = workspaceFolders.map(workspaceFolder => {
+        const extensions = [...cfg.headerExtensions(workspaceFolder), ...cfg.sourceExtensions(workspaceFolder)];
+        const pattern = new vscode.RelativePattern(workspaceFolder, `**/*.{${extensions.join(',')}}`);
+        return vscode.workspace.findFiles(pattern, cfg.searchExcludeGlobPattern(workspaceFolder));
+    });
+
+    return (await Promise.all(p_uris)).flat().sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
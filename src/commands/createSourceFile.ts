@@ -207,6 +207,29 @@ function generateNamespaces(namespaces: CSymbol[], eol: string): string {
     } (namespaces).replace(/[^\S\r\n]+\n/g, eol);
 }
 
+/**
+ * Wraps body in the namespaces that enclose a symbol, ordered from outermost to innermost, following the brace and
+ * indentation style of those namespaces. Unlike generateNamespaces, sibling and child namespaces are not generated.
+ */
+export function wrapInNamespaces(body: string, namespaces: CSymbol[], eol: string): string {
+    const indentation = util.indentation();
+    const curlySeparator = getNamespaceCurlySeparator(namespaces, eol);
+
+    for (let i = namespaces.length - 1; i >= 0; --i) {
+        const namespace = namespaces[i];
+        const namespaceName = namespace.isAnonymous() ? '' : ' ' + namespace.name;
+        const firstChild = namespace.children[0];
+        if (firstChild && namespace.document.lineAt(firstChild.range.start).firstNonWhitespaceCharacterIndex
+                > namespace.trueStart.character) {
+            body = util.insertBeforeEachLine(body, indentation);
+        }
+        body = (namespace.isInline() ? 'inline ' : '') + 'namespace' + namespaceName + curlySeparator + '{' + eol
+                + body + eol + '} // namespace' + namespaceName;
+    }
+
+    return body.replace(/[^\S\r\n]+\n/g, eol);
+}
+
 function getNamespaceCurlySeparator(namespaces: CSymbol[], eol: string): string {
     if (namespaces.length === 0) {
         return '';
@@ -0,0 +1,296 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import { formatHeaderGuard } from './addHeaderGuard';
+import { wrapInNamespaces } from './createSourceFile';
+import { getDeletionRange, relativeIncludePath } from './moveDefinition';
+import { isStaticMemberVariable } from './addStaticMemberDefinition';
+import { logger } from '../extension';
+
+
+export const title = {
+    extractClass: 'Extract Class to New Files'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot operate on classes.',
+    noClassOrStruct: 'No class or struct detected.',
+    isNested: 'Nested classes cannot be extracted to their own file.',
+    invalidFileExtension: 'The new file must have a C/C++ header file extension.',
+    fileExists: 'A file with this name already exists.',
+    sourceFileExists: 'A source file with the same name as the new header already exists.'
+};
+
+/**
+ * Moves classSymbol into a new header, leaving an include of the new header in its place. Out-of-class member
+ * definitions that are in a header (or that must be visible to callers) are moved into the new header, and those
+ * that are in a source file are moved into a new source file with the same base name as the new header. The user is
+ * prompted for the path of the new header unless newHeaderUri is given.
+ */
+export async function extractClass(
+    classSymbol?: CSymbol,
+    classDoc?: SourceDocument,
+    newHeaderUri?: vscode.Uri
+): Promise<boolean | undefined> {
+    if (!classSymbol || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        if (classDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        classSymbol = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!classSymbol?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    if (classSymbol.scopes().some(scope => scope.isClassType())) {
+        logger.alertWarning(failure.isNested);
+        return;
+    }
+
+    const p_memberDefinitions = findOutOfClassMemberDefinitions(classSymbol, classDoc);
+
+    if (!newHeaderUri) {
+        newHeaderUri = await promptUserForNewHeaderUri(classSymbol, classDoc);
+        if (!newHeaderUri) {
+            return;
+        }
+    }
+
+    const memberDefinitions = await p_memberDefinitions;
+    const headerDefinitions = memberDefinitions.filter(definition =>
+            definition.document.isHeader() || util.requiresVisibleDefinition(definition));
+    const sourceDefinitions = memberDefinitions.filter(definition => !headerDefinitions.includes(definition));
+
+    const newSourceUri = sourceDefinitions.length > 0
+            ? getNewSourceUri(newHeaderUri, sourceDefinitions[0].uri)
+            : undefined;
+    if (newSourceUri && await util.uriExists(newSourceUri)) {
+        logger.alertWarning(failure.sourceFileExists);
+        return;
+    }
+
+    const eol = classDoc.endOfLine;
+    const headerGuard = formatHeaderGuard(newHeaderUri, eol);
+    const headerIncludes = await getIncludeDirectives([classDoc], newHeaderUri);
+    const newHeaderText = headerGuard.header + eol
+            + (headerIncludes.length > 0 ? headerIncludes.join(eol) + eol + eol : '')
+            + formatSymbols([classSymbol, ...headerDefinitions], eol) + eol
+            + headerGuard.footer;
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.createFile(newHeaderUri);
+    workspaceEdit.insert(newHeaderUri, new vscode.Position(0, 0), newHeaderText);
+
+    if (newSourceUri) {
+        const sourceIncludes = [
+            `#include "${relativeIncludePath(newHeaderUri, newSourceUri)}"`,
+            ...await getIncludeDirectives(sourceDefinitions.map(definition => definition.document), newSourceUri)
+        ];
+        const newSourceText = sourceIncludes.join(eol) + eol + eol + formatSymbols(sourceDefinitions, eol) + eol;
+
+        workspaceEdit.createFile(newSourceUri);
+        workspaceEdit.insert(newSourceUri, new vscode.Position(0, 0), newSourceText);
+    }
+
+    // The include is placed with the includes that precede the class, since the class may depend on them.
+    const includePosition = classDoc.findPositionForNewInclude(classSymbol.rangeWithComments.start).project;
+    workspaceEdit.insert(classDoc.uri, includePosition,
+            `#include "${relativeIncludePath(newHeaderUri, classDoc.uri)}"` + eol);
+
+    addDeletionsToWorkspaceEdit([classSymbol, ...memberDefinitions], workspaceEdit);
+
+    const success = await vscode.workspace.applyEdit(workspaceEdit);
+    if (success) {
+        await vscode.window.showTextDocument(newHeaderUri);
+    }
+
+    return success;
+}
+
+/**
+ * Finds the definitions of the member functions and static member variables of classSymbol (and of its nested
+ * classes) that are not defined in the class body.
+ */
+async function findOutOfClassMemberDefinitions(classSymbol: CSymbol, classDoc: SourceDocument): Promise<CSymbol[]> {
+    const members: CSymbol[] = [];
+    (function collectMembers(parentClass: CSymbol): void {
+        for (const child of parentClass.children) {
+            const member = new CSymbol(child, classDoc);
+            if (member.isClassType()) {
+                collectMembers(member);
+            } else if (member.isFunctionDeclaration() || isStaticMemberVariable(member)) {
+                members.push(member);
+            }
+        }
+    } (classSymbol));
+
+    const locations = await Promise.all(members.map(member => member.findDefinition()));
+
+    const definitionDocs = new Map<string, SourceDocument>([[classDoc.uri.fsPath, classDoc]]);
+    const definitions: CSymbol[] = [];
+    for (const location of locations) {
+        if (!location
+                || (location.uri.fsPath === classDoc.uri.fsPath && classSymbol.range.contains(location.range))) {
+            continue;
+        }
+
+        let definitionDoc = definitionDocs.get(location.uri.fsPath);
+        if (!definitionDoc) {
+            definitionDoc = await SourceDocument.open(location.uri);
+            definitionDocs.set(location.uri.fsPath, definitionDoc);
+        }
+
+        const definition = await definitionDoc.getSymbol(location.range.start);
+        if (definition && !definitions.some(other =>
+                other.uri.fsPath === definition.uri.fsPath && other.range.isEqual(definition.range))) {
+            definitions.push(definition);
+        }
+    }
+
+    return definitions.sort((a, b) => a.uri.fsPath !== b.uri.fsPath
+            ? a.uri.fsPath.localeCompare(b.uri.fsPath)
+            : a.range.start.compareTo(b.range.start));
+}
+
+/**
+ * Prompts the user for the path of the new header, relative to the directory of classDoc. The suggested file name
+ * is the name of the class, lower-cased if the current file name is lower-case.
+ */
+async function promptUserForNewHeaderUri(
+    classSymbol: CSymbol, classDoc: SourceDocument
+): Promise<vscode.Uri | undefined> {
+    const directory = path.dirname(classDoc.uri.fsPath);
+    const headerExtensions = cfg.headerExtensions(classDoc);
+    const extension = classDoc.isHeader() ? util.fileExtension(classDoc.uri.fsPath) : headerExtensions[0];
+    const currentFileNameBase = util.fileNameBase(classDoc.uri.fsPath);
+    const fileNameBase = currentFileNameBase === currentFileNameBase.toLowerCase()
+            ? classSymbol.name.toLowerCase()
+            : classSymbol.name;
+
+    const relativePath = await vscode.window.showInputBox({
+        prompt: `Enter the path of the new header for "${classSymbol.name}", relative to the current file's folder`,
+        value: fileNameBase + '.' + extension,
+        valueSelection: [0, fileNameBase.length],
+        validateInput: async value => {
+            const uri = vscode.Uri.file(path.resolve(directory, value.trim()));
+            if (!headerExtensions.includes(util.fileExtension(uri.fsPath))) {
+                return failure.invalidFileExtension;
+            } else if (await util.uriExists(uri)) {
+                return failure.fileExists;
+            }
+        }
+    });
+
+    if (relativePath?.trim()) {
+        return vscode.Uri.file(path.resolve(directory, relativePath.trim()));
+    }
+}
+
+/**
+ * The new source file goes in the same folder, and has the same extension, as the source file that the definitions
+ * are moved out of.
+ */
+function getNewSourceUri(newHeaderUri: vscode.Uri, sourceUri: vscode.Uri): vscode.Uri {
+    const fileName = util.fileNameBase(newHeaderUri.fsPath) + '.' + util.fileExtension(sourceUri.fsPath);
+    return vscode.Uri.file(path.join(path.dirname(sourceUri.fsPath), fileName));
+}
+
+/**
+ * Returns the include directives of sourceDocs, without duplicates, to be placed in the file at targetUri. There is no
+ * way to tell which of them the moved code depends on, so all of them are copied. Quoted includes that are found
+ * relative to the directory of their file are rewritten to be relative to targetUri. Otherwise, they are found through
+ * the include paths, and are copied unchanged.
+ */
+async function getIncludeDirectives(sourceDocs: SourceDocument[], targetUri: vscode.Uri): Promise<string[]> {
+    const includeDirectives = new Set<string>();
+    for (const sourceDoc of sourceDocs) {
+        for (const directive of sourceDoc.preprocessorDirectives) {
+            const directiveText = directive.text();
+            if (!/^#\s*include\b/.test(directiveText)) {
+                continue;
+            }
+
+            const quotedPath = directiveText.match(/(?<=^#\s*include\s*").+(?=")/)?.[0];
+            const includedUri = quotedPath !== undefined
+                ? vscode.Uri.file(path.resolve(path.dirname(sourceDoc.uri.fsPath), quotedPath))
+                : undefined;
+            if (includedUri && await util.uriExists(includedUri)) {
+                includeDirectives.add(`#include "${relativeIncludePath(includedUri, targetUri)}"`);
+            } else {
+                includeDirectives.add(directiveText);
+            }
+        }
+    }
+    return [...includeDirectives];
+}
+
+/**
+ * Consecutive symbols that are enclosed in the same namespaces are grouped into one set of namespace blocks.
+ */
+function formatSymbols(symbols: CSymbol[], eol: string): string {
+    const groups: { namespaces: CSymbol[]; texts: string[] }[] = [];
+
+    for (const symbol of symbols) {
+        const namespaces = symbol.scopes().filter(scope => scope.isNamespace());
+        const symbolText = symbol.document.getText(symbol.rangeWithComments)
+                .replace(parse.getIndentationRegExp(symbol), '');
+
+        const lastGroup = groups[groups.length - 1];
+        if (lastGroup && namespaceNames(lastGroup.namespaces) === namespaceNames(namespaces)) {
+            lastGroup.texts.push(symbolText);
+        } else {
+            groups.push({ namespaces: namespaces, texts: [symbolText] });
+        }
+    }
+
+    return groups.map(group => wrapInNamespaces(group.texts.join(eol + eol), group.namespaces, eol)).join(eol + eol);
+}
+
+function namespaceNames(namespaces: CSymbol[]): string {
+    return namespaces.map(namespace => namespace.name).join('::');
+}
+
+/**
+ * Deletion ranges include adjacent blank lines, so the ranges of neighboring symbols are merged to avoid
+ * overlapping edits.
+ */
+function addDeletionsToWorkspaceEdit(symbols: CSymbol[], workspaceEdit: vscode.WorkspaceEdit): void {
+    const deletionRanges = new Map<string, { uri: vscode.Uri; ranges: vscode.Range[] }>();
+    symbols.forEach(symbol => {
+        const entry = deletionRanges.get(symbol.uri.fsPath) ?? { uri: symbol.uri, ranges: [] };
+        entry.ranges.push(getDeletionRange(symbol));
+        deletionRanges.set(symbol.uri.fsPath, entry);
+    });
+
+    deletionRanges.forEach(entry => {
+        const ranges = entry.ranges.sort((a, b) => a.start.compareTo(b.start));
+        let currentRange = ranges[0];
+        for (const range of ranges.slice(1)) {
+            if (range.start.isBeforeOrEqual(currentRange.end)) {
+                currentRange = currentRange.union(range);
+            } else {
+                workspaceEdit.delete(entry.uri, currentRange);
+                currentRange = range;
+            }
+        }
+        workspaceEdit.delete(entry.uri, currentRange);
+    });
+}
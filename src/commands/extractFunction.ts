@@ -0,0 +1,436 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import FunctionSignature from '../FunctionSignature';
+import { ProposedPosition } from '../ProposedPosition';
+import { logger } from '../extension';
+
+
+export const title = {
+    extractFunction: 'Extract Function'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCOrCpp: 'Detected language is not C or C++, cannot extract a function.',
+    noSelection: 'Select the statements to extract into a new function.',
+    notInFunctionBody: 'The selection must be within the body of a function definition.',
+    incompleteStatements: 'The selection must consist of complete statements.',
+    containsReturn: 'Cannot extract statements that contain a return statement.',
+    containsJump: 'Cannot extract a break or continue statement without its enclosing loop or switch statement.',
+    isTemplate: 'Cannot extract a function from a function template.',
+    usedAfterSelection: 'A variable that is declared in the selection is used after it.',
+    deducedType: 'A variable that is used in the selection is declared with auto, so its type cannot be determined.',
+    positionNotFound: 'Could not find a position for a new private member function.',
+    invalidName: 'The name of the new function must be a valid identifier.',
+    nameExists: 'This class already has a member with this name.'
+};
+
+/**
+ * Moves the statements in range into a new function and replaces them with a call to it. Variables that are used in
+ * range and declared earlier in the enclosing function become the parameters of the new function. When extracting
+ * from a member function, the new function is a private member function of the same class. The user is prompted for the
+ * name of the new function unless functionName is given.
+ */
+export async function extractFunction(
+    sourceDoc?: SourceDocument,
+    range?: vscode.Range,
+    functionName?: string
+): Promise<boolean | undefined> {
+    if (!sourceDoc || !range) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        sourceDoc = new SourceDocument(editor.document);
+        if (sourceDoc.languageId !== 'c' && sourceDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCOrCpp);
+            return;
+        }
+
+        range = editor.selection;
+    }
+
+    const selectionRange = trimRange(sourceDoc, range);
+    if (selectionRange.isEmpty) {
+        logger.alertInformation(failure.noSelection);
+        return;
+    }
+
+    const functionSymbol = await sourceDoc.getSymbol(selectionRange.start);
+    if (!functionSymbol?.isFunctionDefinition() || !isWithinFunctionBody(functionSymbol, selectionRange)) {
+        logger.alertWarning(failure.notInFunctionBody);
+        return;
+    }
+
+    const selectionFailure = failureIfInvalidSelection(functionSymbol, selectionRange);
+    if (selectionFailure) {
+        logger.alertWarning(selectionFailure);
+        return;
+    }
+
+    const isDefinedInClass = !!functionSymbol.parent?.isClassType();
+    const parentClass = isDefinedInClass ? functionSymbol.parent : await functionSymbol.getParentClass();
+    if (functionSymbol.isUnspecializedTemplate() && !parentClass?.isUnspecializedTemplate()) {
+        logger.alertWarning(failure.isTemplate);
+        return;
+    }
+
+    const declarationPos = parentClass?.findPositionForNewMemberFunction(util.AccessLevel.private);
+    if (parentClass && !declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const parameters = await inferParameters(functionSymbol, selectionRange);
+    if (!parameters) {
+        logger.alertWarning(failure.usedAfterSelection);
+        return;
+    } else if (parameters.some(parameter => parameter.hasDeducedType)) {
+        logger.alertWarning(failure.deducedType);
+        return;
+    }
+
+    if (!functionName) {
+        functionName = await promptUserForFunctionName(sourceDoc, parentClass);
+        if (!functionName) {
+            return;
+        }
+    }
+
+    const isConst = new FunctionSignature(functionSymbol).isConst;
+    const isStatic = parentClass !== undefined && await isStaticMemberFunction(functionSymbol, isDefinedInClass);
+    const parameterList = '(' + parameters.map(parameter => parameter.text).join(', ') + ')'
+            + (isConst ? ' const' : '');
+    const functionBody = formatFunctionBody(
+            sourceDoc, selectionRange, dereferencePointerParameters(functionSymbol, selectionRange, parameters));
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    if (parentClass && declarationPos) {
+        const declaration = (isStatic ? 'static ' : '') + 'void ' + functionName + parameterList;
+        const classDoc = parentClass.document;
+        const declarationText = isDefinedInClass ? declaration + functionBody : declaration + ';';
+        workspaceEdit.insert(
+                classDoc.uri, declarationPos, declarationPos.formatTextToInsert(declarationText, classDoc));
+    }
+
+    if (!isDefinedInClass) {
+        // The new function is defined before the enclosing function, so that a declaration isn't needed to call it.
+        const position = new ProposedPosition(functionSymbol.leadingCommentStart, {
+            relativeTo: functionSymbol.range,
+            before: true
+        });
+        const definition = formatDefinitionLeadingText(functionSymbol, !!parentClass)
+                + functionName + parameterList + functionBody;
+        workspaceEdit.insert(sourceDoc.uri, position, position.formatTextToInsert(definition, sourceDoc));
+    }
+
+    const functionCall = functionName + '('
+            + parameters.map(parameter => (parameter.isPassedByPointer ? '&' : '') + parameter.name).join(', ') + ');';
+    workspaceEdit.replace(sourceDoc.uri, selectionRange, functionCall);
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Returns range without leading and trailing whitespace.
+ */
+function trimRange(sourceDoc: SourceDocument, range: vscode.Range): vscode.Range {
+    const text = sourceDoc.getText(range);
+    const trimmedText = text.trim();
+    if (trimmedText.length === 0) {
+        return new vscode.Range(range.start, range.start);
+    }
+
+    const startOffset = sourceDoc.offsetAt(range.start) + text.indexOf(trimmedText);
+    return new vscode.Range(
+            sourceDoc.positionAt(startOffset), sourceDoc.positionAt(startOffset + trimmedText.length));
+}
+
+export function isWithinFunctionBody(functionSymbol: CSymbol, range: vscode.Range): boolean {
+    return functionSymbol.bodyStart().isBeforeOrEqual(range.start)
+        && range.end.isBeforeOrEqual(functionSymbol.bodyEnd());
+}
+
+function failureIfInvalidSelection(functionSymbol: CSymbol, selectionRange: vscode.Range): string | undefined {
+    const maskedText = getMaskedText(functionSymbol, selectionRange);
+
+    const countOf = (char: string): number => maskedText.split(char).length - 1;
+    if (countOf('{') !== countOf('}') || countOf('(') !== countOf(')') || countOf('[') !== countOf(']')
+            || !/[;}]$/.test(maskedText)) {
+        return failure.incompleteStatements;
+    } else if (/\breturn\b/.test(maskedText)) {
+        return failure.containsReturn;
+    } else if (/\b(break|continue)\b/.test(maskedText) && !/\b(for|while|do|switch)\b/.test(maskedText)) {
+        return failure.containsJump;
+    }
+}
+
+function getMaskedText(functionSymbol: CSymbol, range: vscode.Range): string {
+    const startOffset = functionSymbol.startOffset();
+    return functionSymbol.parsableText.slice(
+            functionSymbol.document.offsetAt(range.start) - startOffset,
+            functionSymbol.document.offsetAt(range.end) - startOffset);
+}
+
+interface ExtractedParameter {
+    name: string;
+    /** The parameter as it appears in the parameter list of the new function. */
+    text: string;
+    /** Whether the variable is declared with a placeholder type (auto), which cannot be used for a parameter. */
+    hasDeducedType: boolean;
+    /** Whether the address of the variable is passed, so that the new function can modify it in C. */
+    isPassedByPointer: boolean;
+}
+
+const re_nonVariableIdentifiers = new RegExp('^(auto|bool|break|case|char|const|continue|default|delete|do|double|else'
+        + '|false|float|for|if|int|long|new|nullptr|return|short|signed|sizeof|static|switch|this|true|unsigned|void'
+        + '|while)$');
+
+/**
+ * Finds the variables that are used in selectionRange and declared earlier in functionSymbol, by going to the
+ * definition of each identifier in the selection. Returns undefined if a variable that is declared in the selection
+ * is used after it, since the selection cannot be extracted without changing the meaning of the code.
+ */
+async function inferParameters(
+    functionSymbol: CSymbol, selectionRange: vscode.Range
+): Promise<ExtractedParameter[] | undefined> {
+    const document = functionSymbol.document;
+    const startOffset = functionSymbol.startOffset();
+    const selectionStartIndex = document.offsetAt(selectionRange.start) - startOffset;
+    const selectionEndIndex = document.offsetAt(selectionRange.end) - startOffset;
+    const bodyEndIndex = document.offsetAt(functionSymbol.bodyEnd()) - startOffset;
+    const maskedSelection = functionSymbol.parsableText.slice(selectionStartIndex, selectionEndIndex);
+    const maskedTextAfterSelection = functionSymbol.parsableText.slice(selectionEndIndex, bodyEndIndex);
+
+    // Identifiers that are accessed through an object or a scope cannot refer to local variables.
+    const identifiers = new Map<string, vscode.Position>();
+    for (const match of maskedSelection.matchAll(/(?<![\w\d_.]|->|::)[A-Za-z_][\w\d_]*\b(?!\s*::)/g)) {
+        if (match.index !== undefined && !identifiers.has(match[0]) && !re_nonVariableIdentifiers.test(match[0])) {
+            identifiers.set(match[0], document.positionAt(startOffset + selectionStartIndex + match.index));
+        }
+    }
+
+    const identifierEntries = [...identifiers.entries()];
+    const identifierLocations = await Promise.all(
+            identifierEntries.map(([, position]) => document.findDefinitions(position)));
+
+    const parameters: ExtractedParameter[] = [];
+    for (let i = 0; i < identifierEntries.length; ++i) {
+        const name = identifierEntries[i][0];
+        const location = identifierLocations[i].find(location =>
+                location.uri.fsPath === document.uri.fsPath && functionSymbol.range.contains(location.range.start));
+        if (!location) {
+            continue;
+        }
+
+        const declarationIndex = document.offsetAt(location.range.start) - startOffset;
+        if (declarationIndex >= selectionStartIndex && declarationIndex < selectionEndIndex) {
+            if (new RegExp('\\b' + name + '\\b').test(maskedTextAfterSelection)) {
+                return;
+            }
+        } else if (declarationIndex < selectionStartIndex) {
+            const isModified = new RegExp(
+                    `(\\+\\+|--)\\s*\\b${name}\\b|\\b${name}\\s*(\\+\\+|--|([-+*/%&|^]|<<|>>)?=(?!=))`
+            ).test(maskedSelection);
+            // Objects might also be modified by calling member functions on them or passing them to functions.
+            const mightBeModified = isModified || new RegExp(
+                    `\\b${name}\\s*(\\.|->)\\s*[\\w_][\\w\\d_]*\\s*\\(|\\b${name}\\s*\\[|[(,:]\\s*\\b${name}\\s*[,)]`
+            ).test(maskedSelection);
+            const parameter = formatParameter(functionSymbol, declarationIndex, name, isModified, mightBeModified);
+            parameters.push({
+                name: name,
+                text: parameter.text,
+                hasDeducedType: /\bauto\b/.test(parse.maskAngleBrackets(parameter.text)),
+                isPassedByPointer: parameter.isPassedByPointer
+            });
+        }
+    }
+
+    return parameters;
+}
+
+/**
+ * Parses the type of the variable declared at declarationIndex (relative to the start of functionSymbol) and formats
+ * a parameter for it. Variables are passed by reference when the extracted statements might modify them, and by
+ * reference to const when they are not cheap to copy. C has no references, so unmodified variables are passed by value
+ * and modified variables are passed by pointer. Arrays are passed by reference in C++, and as arrays in C.
+ */
+function formatParameter(
+    functionSymbol: CSymbol, declarationIndex: number, name: string, isModified: boolean, mightBeModified: boolean
+): Pick<ExtractedParameter, 'text' | 'isPassedByPointer'> {
+    const text = functionSymbol.text();
+    const type = parseVariableType(functionSymbol, declarationIndex);
+    const isCpp = functionSymbol.document.languageId === 'cpp';
+
+    const textAfterName = text.slice(declarationIndex + name.length);
+    const arrayMatch = parse.maskNonSourceText(textAfterName).match(/^(\s*\[[^\]]*\])+/);
+    if (arrayMatch) {
+        const dimensions = textAfterName.slice(0, arrayMatch[0].length).replace(/\s+/g, '');
+        return {
+            text: isCpp ? `${type} (&${name})${dimensions}` : `${type} ${name}${dimensions}`,
+            isPassedByPointer: false
+        };
+    }
+
+    const maskedType = parse.maskAngleBrackets(type);
+    if (!isCpp && isModified) {
+        return { text: (type.endsWith('*') ? type : type + ' ') + '*' + name, isPassedByPointer: true };
+    } else if (maskedType.includes('&') || (!isModified && (maskedType.includes('*')
+            || parse.matchesPrimitiveType(maskedType) || !isCpp))) {
+        return { text: (/[*&]$/.test(type) ? type : type + ' ') + name, isPassedByPointer: false };
+    } else if (!mightBeModified) {
+        return { text: (/\bconst\b/.test(maskedType) ? type : 'const ' + type) + ' &' + name, isPassedByPointer: false };
+    }
+
+    return { text: (type.endsWith('*') ? type : type + ' ') + '&' + name, isPassedByPointer: false };
+}
+
+/**
+ * Returns the text of selectionRange with each use of a parameter that is passed by pointer replaced with a
+ * dereference of it.
+ */
+function dereferencePointerParameters(
+    functionSymbol: CSymbol, selectionRange: vscode.Range, parameters: ExtractedParameter[]
+): string {
+    let text = functionSymbol.document.getText(selectionRange);
+    const pointerNames = parameters.filter(parameter => parameter.isPassedByPointer).map(parameter => parameter.name);
+    if (pointerNames.length === 0) {
+        return text;
+    }
+
+    const maskedText = getMaskedText(functionSymbol, selectionRange);
+    const re_uses = new RegExp(`(?<![\\w\\d_.]|->|::)\\b(${pointerNames.join('|')})\\b(?!\\s*::)`, 'g');
+    // Replace from the end, so that the indices of the preceding matches stay valid.
+    for (const match of [...maskedText.matchAll(re_uses)].reverse()) {
+        if (match.index !== undefined) {
+            text = text.slice(0, match.index) + `(*${match[1]})` + text.slice(match.index + match[1].length);
+        }
+    }
+
+    return text;
+}
+
+/**
+ * Parses the type of the variable declared at declarationIndex (relative to the start of functionSymbol), which may
+ * be a parameter or a local variable of functionSymbol. Storage class specifiers are removed from the type.
+ */
+export function parseVariableType(functionSymbol: CSymbol, declarationIndex: number): string {
+    const text = functionSymbol.text();
+    const maskedText = parse.maskAngleBrackets(functionSymbol.parsableText);
+    const bodyStartIndex = functionSymbol.document.offsetAt(functionSymbol.bodyStart()) - functionSymbol.startOffset();
+
+    const declarationStartIndex = findDeclarationStart(maskedText, declarationIndex, /[;{}(,[]/);
+    let type = text.slice(declarationStartIndex + 1, declarationIndex).trim();
+    if (maskedText[declarationStartIndex] === ',' && declarationIndex > bodyStartIndex) {
+        // This is not the first variable declared in its statement, so the base type comes from the first one.
+        const statementStartIndex = findDeclarationStart(maskedText, declarationStartIndex, /[;{}(]/);
+        const maskedStatement = maskedText.slice(statementStartIndex + 1, declarationStartIndex);
+        const baseTypeMatch = maskedStatement.match(/^([^=,{([]*?)[\s*&]*\b[\w_][\w\d_]*\s*(?=[=,{([])/);
+        if (baseTypeMatch) {
+            type = text.slice(statementStartIndex + 1, statementStartIndex + 1 + baseTypeMatch[1].length).trim()
+                    + (type ? ' ' + type : '');
+        }
+    }
+
+    return type.replace(/\b(static|thread_local|register|extern|inline|mutable)\b\s*/g, '')
+            .replace(/\bconstexpr\b/g, 'const')
+            .replace(/\s+/g, ' ')
+            .trim();
+}
+
+/**
+ * Searches backwards from index for a delimiter that is not nested in parentheses or brackets, and returns its index.
+ */
+function findDeclarationStart(maskedText: string, index: number, re_delimiter: RegExp): number {
+    let depth = 0;
+    for (let i = index - 1; i >= 0; --i) {
+        const char = maskedText[i];
+        if (char === ')' || char === ']') {
+            ++depth;
+        } else if (depth > 0 && (char === '(' || char === '[')) {
+            --depth;
+        } else if (depth === 0 && re_delimiter.test(char)) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+async function isStaticMemberFunction(functionSymbol: CSymbol, isDefinedInClass: boolean): Promise<boolean> {
+    if (isDefinedInClass) {
+        return functionSymbol.isStatic();
+    }
+
+    // The static keyword only appears on the declaration of a member function.
+    const declarationLocation = await functionSymbol.findDeclaration();
+    if (!declarationLocation) {
+        return false;
+    }
+
+    const declarationDoc = (declarationLocation.uri.fsPath === functionSymbol.uri.fsPath)
+            ? functionSymbol.document
+            : await SourceDocument.open(declarationLocation.uri);
+    const declaration = await declarationDoc.getSymbol(declarationLocation.range.start);
+    return !!declaration?.isStatic();
+}
+
+async function promptUserForFunctionName(
+    sourceDoc: SourceDocument, parentClass?: CSymbol
+): Promise<string | undefined> {
+    const functionName = await vscode.window.showInputBox({
+        prompt: 'Enter the name of the new function',
+        value: cfg.formatToCaseStyle('extractedFunction', sourceDoc.uri),
+        validateInput: value => {
+            if (!/^[A-Za-z_][\w\d_]*$/.test(value.trim())) {
+                return failure.invalidName;
+            } else if (parentClass?.children.some(child => child.name === value.trim())) {
+                return failure.nameExists;
+            }
+        }
+    });
+
+    return functionName?.trim();
+}
+
+/**
+ * The selected statements are re-indented so that they are indented one level within the new function body.
+ */
+function formatFunctionBody(sourceDoc: SourceDocument, selectionRange: vscode.Range, selectedText: string): string {
+    const eol = sourceDoc.endOfLine;
+    const curlyBraceFormat = cfg.functionCurlyBraceFormat(sourceDoc.languageId, sourceDoc);
+    const curlySeparator = curlyBraceFormat === cfg.CurlyBraceFormat.NewLine ? eol : ' ';
+
+    const firstLine = sourceDoc.lineAt(selectionRange.start);
+    const indentation = firstLine.text.slice(0, firstLine.firstNonWhitespaceCharacterIndex);
+    const statements = selectedText.replace(new RegExp('^' + indentation, 'gm'), '');
+
+    return curlySeparator + '{' + eol + util.insertBeforeEachLine(statements, util.indentation()) + eol + '}';
+}
+
+/**
+ * Formats the text that precedes the name of the new function in its definition. Member functions that are defined
+ * outside of the class take the template statements and scope of the enclosing function. Non-member functions are
+ * given internal linkage in source files.
+ */
+function formatDefinitionLeadingText(functionSymbol: CSymbol, isMemberFunction: boolean): string {
+    const document = functionSymbol.document;
+    if (isMemberFunction) {
+        const templateStatements = document.getText(
+                new vscode.Range(functionSymbol.trueStart, functionSymbol.declarationStart()));
+        const scopeString = document.getText(
+                new vscode.Range(functionSymbol.scopeStringStart(), functionSymbol.selectionRange.start));
+        return templateStatements + (functionSymbol.isInline() ? 'inline ' : '') + 'void ' + scopeString;
+    }
+
+    if (!document.isHeader()) {
+        return 'static void ';
+    }
+    return (document.languageId === 'cpp' ? 'inline ' : 'static inline ') + 'void ';
+}
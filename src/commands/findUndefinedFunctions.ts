@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import { UndefinedFunctionsNode, UndefinedFunctionsProvider } from '../UndefinedFunctionsProvider';
+import { generateDefinitionsWorkspaceEdit, revealNewFunction } from './addDefinition';
+import { getMatchingHeaderSource, logger, undefinedFunctionsProvider } from '../extension';
+
+
+export const title = {
+    findUndefinedFunctions: 'Find Undefined Functions',
+    addDefinitions: 'Add Definitions'
+};
+
+export const failure = {
+    noWorkspaceFolder: 'No workspace folder is open.',
+    noHeaderFiles: 'No header files were found in the workspace.',
+    noUndefinedFunctions: 'No undefined functions found in the workspace.',
+    noNodeSelected: 'Select a file, class, or function in the Undefined Functions view.',
+    declarationsChanged: 'The declarations of these functions have changed. Run "Find Undefined Functions" again.'
+};
+
+/**
+ * Scans every header file in the workspace for function declarations that lack a definition, and shows the
+ * results in the Undefined Functions view.
+ */
+export async function findUndefinedFunctions(): Promise<boolean | undefined> {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+        logger.alertWarning(failure.noWorkspaceFolder);
+        return;
+    }
+
+    const headerUris = await findWorkspaceHeaders(vscode.workspace.workspaceFolders);
+    if (headerUris.length === 0) {
+        logger.alertInformation(failure.noHeaderFiles);
+        return;
+    }
+
+    const undefinedFunctions = new Map<SourceDocument, CSymbol[]>();
+    let undefinedFunctionCount = 0;
+    let userCancelledOperation = false;
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Finding undefined functions',
+        cancellable: true
+    }, async (progress, token) => {
+        const increment = (1 / headerUris.length) * 100;
+
+        for (let i = 0; i < headerUris.length; ++i) {
+            if (token.isCancellationRequested) {
+                userCancelledOperation = true;
+                return;
+            }
+
+            progress.report({ message: `${i}/${headerUris.length} files scanned`, increment: increment });
+
+            const headerDoc = await SourceDocument.open(headerUris[i]);
+            if (headerDoc.languageId !== 'c' && headerDoc.languageId !== 'cpp') {
+                continue;
+            }
+
+            const declarations = await findUndefinedFunctionsInFile(headerDoc);
+            undefinedFunctions.set(headerDoc, declarations);
+            undefinedFunctionCount += declarations.length;
+        }
+    });
+
+    if (userCancelledOperation) {
+        return;
+    }
+
+    undefinedFunctionsProvider.update(undefinedFunctions);
+
+    if (undefinedFunctionCount === 0) {
+        logger.alertInformation(failure.noUndefinedFunctions);
+        return true;
+    }
+
+    await vscode.commands.executeCommand(UndefinedFunctionsProvider.viewId + '.focus');
+    return true;
+}
+
+/**
+ * Generates definitions for every undefined function beneath node. Definitions are added to the matching source
+ * file, unless there isn't one or any of the functions must be defined in the header.
+ */
+export async function addDefinitionsForUndefinedFunctions(
+    node?: UndefinedFunctionsNode
+): Promise<boolean | undefined> {
+    if (!node) {
+        logger.alertWarning(failure.noNodeSelected);
+        return;
+    }
+
+    const resolved = await resolveDeclarations(node);
+    if (!resolved) {
+        logger.alertWarning(failure.declarationsChanged);
+        return;
+    }
+
+    const { declarationDoc, declarations } = resolved;
+    const matchingUri = await getMatchingHeaderSource(declarationDoc.uri);
+    const targetDoc = (matchingUri && !declarations.some(util.requiresVisibleDefinition))
+            ? await SourceDocument.open(matchingUri)
+            : declarationDoc;
+
+    const workspaceEdit = await generateDefinitionsWorkspaceEdit(declarations, declarationDoc, targetDoc);
+    if (!workspaceEdit) {
+        return;
+    }
+
+    const success = await vscode.workspace.applyEdit(workspaceEdit);
+    if (success) {
+        undefinedFunctionsProvider.remove(node);
+        if (cfg.revealNewDefinition(declarationDoc)) {
+            await revealNewFunction(workspaceEdit, targetDoc);
+        }
+    }
+
+    return success;
+}
+
+/**
+ * The declarations of node were found when the tree was last updated, so their ranges are stale if their document
+ * has been edited since. In that case, they are looked up again by their name, scopes, and signature, which don't
+ * depend on their ranges. Returns undefined if any of them is no longer declared.
+ */
+async function resolveDeclarations(
+    node: UndefinedFunctionsNode
+): Promise<{ declarationDoc: SourceDocument; declarations: CSymbol[] } | undefined> {
+    if (node.declarationDoc.version === node.version) {
+        return { declarationDoc: node.declarationDoc, declarations: node.declarations };
+    }
+
+    const declarationDoc = await SourceDocument.open(node.declarationDoc.uri);
+    const functionDeclarations = (await declarationDoc.allFunctions())
+            .filter(functionSymbol => functionSymbol.isFunctionDeclaration());
+
+    const declarations: CSymbol[] = [];
+    for (const staleDeclaration of node.declarations) {
+        const staleScopes = staleDeclaration.scopes().map(scope => scope.name);
+        const declaration = functionDeclarations.find(functionDeclaration =>
+                functionDeclaration.name === staleDeclaration.name
+                && functionDeclaration.signature === staleDeclaration.signature
+                && util.arraysAreEqual(functionDeclaration.scopes().map(scope => scope.name), staleScopes));
+        if (!declaration) {
+            return;
+        }
+        declarations.push(declaration);
+    }
+
+    return { declarationDoc, declarations };
+}
+
+async function findWorkspaceHeaders(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<vscode.Uri[]> {
+    const p_headerUris = workspaceFolders.map(workspaceFolder => {
+        const headerExtensions = cfg.headerExtensions(workspaceFolder);
+        const headerPattern = new vscode.RelativePattern(workspaceFolder, `**/*.{${headerExtensions.join(',')}}`);
+        return vscode.workspace.findFiles(headerPattern, cfg.searchExcludeGlobPattern(workspaceFolder));
+    });
+
+    return (await Promise.all(p_headerUris)).flat().sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Unlike findAllUndefinedFunctions in addDefinition.ts, a definition in any file of the workspace counts, since
+ * headers are not always defined in a source file with the same base name.
+ */
+async function findUndefinedFunctionsInFile(headerDoc: SourceDocument): Promise<CSymbol[]> {
+    const functionDeclarations = (await headerDoc.allFunctions()).filter(symbol => symbol.isFunctionDeclaration());
+
+    const undefinedFunctions: CSymbol[] = [];
+    for (let i = 0; i < functionDeclarations.length; i += 10) {
+        const chunk = functionDeclarations.slice(i, i + 10);
+        const hasDefinition = await Promise.all(chunk.map(declaration => functionHasDefinition(declaration)));
+        chunk.forEach((declaration, index) => {
+            if (!hasDefinition[index]) {
+                undefinedFunctions.push(declaration);
+            }
+        });
+    }
+
+    return undefinedFunctions;
+}
+
+async function functionHasDefinition(declaration: CSymbol): Promise<boolean> {
+    const locations = await declaration.document.findDefinitions(declaration.selectionRange.start);
+    return locations.some(location => util.containedInWorkspace(location)
+            && !(location.uri.fsPath === declaration.uri.fsPath && declaration.range.contains(location.range)));
+}
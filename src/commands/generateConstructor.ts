@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import SubSymbol from '../SubSymbol';
+import FunctionSignature from '../FunctionSignature';
+import { ProposedPosition, TargetLocation } from '../ProposedPosition';
+import { Constructor, Initializer } from '../Constructor';
+import { getMatchingHeaderSource, logger } from '../extension';
+import { showMultiQuickPick } from '../QuickPick';
+import { revealNewFunction } from './addDefinition';
+
+
+export const title = {
+    generateConstructor: 'Generate Constructor'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot create a member function.',
+    noClassOrStruct: 'No class or struct detected.',
+    positionNotFound: 'Could not find a position for a new public member function.',
+    constructorExists: 'A constructor with the same parameters already exists.'
+};
+
+export async function generateConstructor(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        if (classDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    const initializers = await promptUserForInitializers(parentClass);
+    if (!initializers) {
+        return;
+    }
+
+    const newConstructor = await Constructor.create(parentClass, initializers);
+    if (constructorExists(parentClass, newConstructor)) {
+        logger.alertInformation(failure.constructorExists);
+        return;
+    }
+
+    // Place the new constructor after the last existing constructor, if there is one.
+    const declarationPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public, parentClass.name);
+    if (!declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const target = await getTargetForConstructorDefinition(parentClass, declarationPos, classDoc);
+    const curlyBraceFormat = cfg.functionCurlyBraceFormat('cpp', target.sourceDoc);
+    const curlySeparator = (curlyBraceFormat === cfg.CurlyBraceFormat.NewLine
+            || curlyBraceFormat === cfg.CurlyBraceFormat.NewLineCtorDtor)
+        ? target.sourceDoc.endOfLine
+        : ' ';
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+
+    if (target.sourceDoc.fileName === classDoc.fileName && target.position.isEqual(declarationPos)) {
+        let inlineDefinition = await newConstructor.definition(classDoc, declarationPos, curlySeparator);
+        if (!parentClass.positionHasAccess(declarationPos, util.AccessLevel.public)) {
+            inlineDefinition = util.accessSpecifierString(util.AccessLevel.public)
+                    + classDoc.endOfLine + inlineDefinition;
+        }
+        workspaceEdit.insert(classDoc.uri, declarationPos, declarationPos.formatTextToInsert(inlineDefinition, classDoc));
+    } else {
+        let declaration = newConstructor.declaration + ';';
+        if (!parentClass.positionHasAccess(declarationPos, util.AccessLevel.public)) {
+            declaration = util.accessSpecifierString(util.AccessLevel.public) + classDoc.endOfLine + declaration;
+        }
+        const definition = await newConstructor.definition(target.sourceDoc, target.position, curlySeparator);
+
+        workspaceEdit.insert(classDoc.uri, declarationPos, declarationPos.formatTextToInsert(declaration, classDoc));
+        workspaceEdit.insert(target.sourceDoc.uri, target.position, target.formatTextToInsert(definition));
+    }
+
+    const success = await vscode.workspace.applyEdit(workspaceEdit);
+    if (success && cfg.revealNewDefinition(classDoc)) {
+        await revealNewFunction(workspaceEdit, target.sourceDoc);
+    }
+
+    return success;
+}
+
+interface InitializerItem extends vscode.QuickPickItem {
+    initializer: Initializer;
+}
+
+async function promptUserForInitializers(parentClass: CSymbol): Promise<Initializer[] | undefined> {
+    const initializers: Initializer[] = [...parentClass.baseClasses(), ...parentClass.nonStaticMemberVariables()];
+    if (initializers.length === 0) {
+        return [];
+    }
+
+    const initializerItems: InitializerItem[] = [];
+    initializers.forEach(initializer => {
+        if (initializer instanceof SubSymbol) {
+            initializerItems.push({
+                label: '$(symbol-class) ' + initializer.text(),
+                description: 'Base class constructor',
+                initializer: initializer,
+                picked: true
+            });
+        } else {
+            initializerItems.push({
+                label: '$(symbol-field) ' + initializer.name,
+                description: util.formatSignature(initializer),
+                initializer: initializer,
+                picked: true
+            });
+        }
+    });
+
+    const selectedItems = await showMultiQuickPick(initializerItems, {
+        matchOnDescription: true,
+        ignoreFocusOut: true,
+        title: `Select what the new constructor of "${parentClass.name}" should initialize`
+    });
+    if (!selectedItems) {
+        return;
+    }
+
+    const selectedInitializers = selectedItems.map(item => item.initializer);
+    parentClass.memberVariablesThatRequireInitialization().forEach(memberVariable => {
+        if (!selectedInitializers.some(initializer => initializer.name === memberVariable.name)) {
+            selectedInitializers.push(memberVariable);
+        }
+    });
+    selectedInitializers.sort(util.sortByRange);
+
+    return selectedInitializers;
+}
+
+function constructorExists(parentClass: CSymbol, newConstructor: Constructor): boolean {
+    const newParameterTypes = newConstructor.parameterTypes.map(type => parse.normalizeSourceText(type));
+    return parentClass.constructors().some(constructor => {
+        const signature = new FunctionSignature(new CSymbol(constructor, parentClass.document));
+        const existingParameterTypes = signature.parameters.map(parameter => parameter.normalizedType);
+        return util.arraysAreEqual(existingParameterTypes, newParameterTypes);
+    });
+}
+
+async function getTargetForConstructorDefinition(
+    parentClass: CSymbol,
+    declarationPos: ProposedPosition,
+    classDoc: SourceDocument
+): Promise<TargetLocation> {
+    switch (cfg.constructorDefinitionLocation(classDoc)) {
+    case cfg.DefinitionLocation.Inline:
+        return new TargetLocation(declarationPos, classDoc);
+    case cfg.DefinitionLocation.SourceFile:
+        if (classDoc.isHeader() && !parentClass.hasUnspecializedTemplate()) {
+            const matchingUri = await getMatchingHeaderSource(classDoc.uri);
+            if (matchingUri) {
+                const targetDoc = await SourceDocument.open(matchingUri);
+                return new TargetLocation(
+                        await classDoc.findSmartPositionForFunctionDefinition(declarationPos, targetDoc), targetDoc);
+            }
+        }
+        // [[fallthrough]]
+    case cfg.DefinitionLocation.CurrentFile:
+        return new TargetLocation(
+                await classDoc.findSmartPositionForFunctionDefinition(declarationPos, classDoc), classDoc);
+    }
+}
@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import { ProposedPosition } from '../ProposedPosition';
+import { getPositionForNewSystemInclude } from './generateOperators';
+import { logger } from '../extension';
+import { showMultiQuickPick } from '../QuickPick';
+
+
+export const title = {
+    enumToString: 'Generate Enum-to-String Function'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot create a function.',
+    noEnum: 'No enum detected.',
+    isAnonymous: 'Cannot generate conversion functions for an anonymous enum.',
+    isInTemplate: 'Cannot generate conversion functions for an enum that is nested in a class template.',
+    noEnumerators: 'This enum does not have any enumerators.'
+};
+
+enum ConversionFunction {
+    FromString,
+    StreamOutputOperator
+}
+
+export async function generateEnumToString(
+    enumSymbol?: CSymbol,
+    sourceDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!enumSymbol || !sourceDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        sourceDoc = new SourceDocument(editor.document);
+        if (sourceDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await sourceDoc.getSymbol(editor.selection.start);
+        enumSymbol = symbol?.isEnum() ? symbol : symbol?.parent;
+
+        if (!enumSymbol?.isEnum()) {
+            logger.alertWarning(failure.noEnum);
+            return;
+        }
+    }
+
+    if (enumSymbol.isAnonymous()) {
+        logger.alertWarning(failure.isAnonymous);
+        return;
+    }
+
+    const enclosingClasses = enumSymbol.scopes().filter(scope => scope.isClassType());
+    if (enclosingClasses.some(enclosingClass => enclosingClass.hasUnspecializedTemplate())) {
+        logger.alertWarning(failure.isInTemplate);
+        return;
+    }
+
+    const enumerators = enumSymbol.children.filter(child => child.kind === vscode.SymbolKind.EnumMember);
+    if (enumerators.length === 0) {
+        logger.alertInformation(failure.noEnumerators);
+        return;
+    }
+
+    const selectedFunctions = await promptUserForConversionFunctions(enumSymbol);
+    if (!selectedFunctions) {
+        return;
+    }
+
+    // Member enums get non-member functions, so they are placed relative to the outermost enclosing class.
+    const anchorSymbol = enclosingClasses.length > 0 ? enclosingClasses[0] : enumSymbol;
+    const enumType = [...enclosingClasses.map(enclosingClass => enclosingClass.name), enumSymbol.name].join('::');
+    const enumeratorNames = enumerators.map(enumerator => enumerator.name);
+
+    let position = await sourceDoc.findSmartPositionForFunctionDeclaration(anchorSymbol);
+    if (position.isBefore(anchorSymbol.trueEnd)) {
+        // The enum must be declared before the functions that use it.
+        position = new ProposedPosition(anchorSymbol.trueEnd, {
+            relativeTo: anchorSymbol.range,
+            after: true
+        });
+    }
+
+    const eol = sourceDoc.endOfLine;
+    const toStringName = cfg.formatToCaseStyle('toString', sourceDoc.uri);
+    const functions = [formatToString(toStringName, enumType, uniqueEnumeratorNames(enumSymbol), sourceDoc)];
+    if (selectedFunctions.includes(ConversionFunction.FromString)) {
+        functions.push(formatFromString(enumSymbol.name, enumType, enumeratorNames, sourceDoc));
+    }
+    if (selectedFunctions.includes(ConversionFunction.StreamOutputOperator)) {
+        functions.push(formatStreamOutputOperator(toStringName, enumType, sourceDoc));
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.insert(
+            sourceDoc.uri, position, position.formatTextToInsert(functions.join(eol + eol), sourceDoc));
+
+    const requiredHeaders: string[][] = [];
+    if (selectedFunctions.includes(ConversionFunction.FromString)) {
+        requiredHeaders.push(['optional'], ['string_view']);
+    }
+    if (selectedFunctions.includes(ConversionFunction.StreamOutputOperator)) {
+        requiredHeaders.push(['ostream', 'iostream']);
+    }
+
+    for (const headerNames of requiredHeaders) {
+        const newIncludePos = getPositionForNewSystemInclude(sourceDoc, position, headerNames);
+        if (newIncludePos) {
+            workspaceEdit.insert(sourceDoc.uri, newIncludePos, `#include <${headerNames[0]}>` + eol);
+        }
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Enumerators that have the same value as an earlier enumerator (such as `B = A`) would produce duplicate case labels,
+ * so they are left out. Values are only known for enumerators that are initialized with an integer literal or with
+ * another enumerator, and for enumerators without an initializer that follow one with a known value.
+ */
+function uniqueEnumeratorNames(enumSymbol: CSymbol): string[] {
+    const text = enumSymbol.text();
+    const maskedText = parse.maskParentheses(parse.maskNonSourceText(text));
+    const bodyStart = maskedText.indexOf('{') + 1;
+    const bodyEnd = maskedText.lastIndexOf('}');
+    if (bodyStart === 0 || bodyEnd < bodyStart) {
+        return enumSymbol.children.map(enumerator => enumerator.name);
+    }
+
+    const values = new Map<string, number | undefined>();
+    let nextValue: number | undefined = 0;
+    let offset = bodyStart;
+    for (const maskedEnumerator of maskedText.slice(bodyStart, bodyEnd).split(',')) {
+        const nameMatch = maskedEnumerator.match(/^\s*([A-Za-z_][\w\d_]*)/);
+        if (nameMatch) {
+            const equalsIndex = maskedEnumerator.indexOf('=');
+            const initializer = equalsIndex !== -1
+                ? text.slice(offset + equalsIndex + 1, offset + maskedEnumerator.length).trim()
+                : undefined;
+            const value: number | undefined = initializer !== undefined ? evaluateInitializer(initializer, values) : nextValue;
+            values.set(nameMatch[1], value);
+            nextValue = value !== undefined ? value + 1 : undefined;
+        }
+        offset += maskedEnumerator.length + 1;
+    }
+
+    const seenValues = new Set<number>();
+    return enumSymbol.children.filter(child => child.kind === vscode.SymbolKind.EnumMember).filter(enumerator => {
+        const value = values.get(enumerator.name);
+        if (value === undefined) {
+            return true;
+        } else if (seenValues.has(value)) {
+            return false;
+        }
+        seenValues.add(value);
+        return true;
+    }).map(enumerator => enumerator.name);
+}
+
+function evaluateInitializer(initializer: string, values: Map<string, number | undefined>): number | undefined {
+    const literalMatch = initializer.match(/^([-+]?)\s*(0[xX][\da-fA-F']+|0[bB][01']+|0[0-7']*|[1-9][\d']*)[uUlLzZ]*$/);
+    if (literalMatch) {
+        const digits = literalMatch[2].replace(/'/g, '');
+        const value = /^0\d/.test(digits) ? Number('0o' + digits.slice(1)) : Number(digits);
+        return literalMatch[1] === '-' ? -value : value;
+    }
+
+    // An initializer that names an earlier enumerator may be qualified with the name of the enum.
+    const enumeratorMatch = initializer.match(/^(?:[\w\d_]+\s*::\s*)*([A-Za-z_][\w\d_]*)$/);
+    return enumeratorMatch ? values.get(enumeratorMatch[1]) : undefined;
+}
+
+interface ConversionFunctionItem extends vscode.QuickPickItem {
+    conversionFunction: ConversionFunction;
+}
+
+/**
+ * The enum-to-string function is always generated, so this only prompts for the additional functions.
+ */
+async function promptUserForConversionFunctions(enumSymbol: CSymbol): Promise<ConversionFunction[] | undefined> {
+    const functionItems: ConversionFunctionItem[] = [
+        {
+            label: 'String-to-enum function',
+            description: `Returns std::optional<${enumSymbol.name}>`,
+            conversionFunction: ConversionFunction.FromString
+        },
+        {
+            label: 'Stream output operator',
+            description: 'operator<<',
+            conversionFunction: ConversionFunction.StreamOutputOperator
+        }
+    ];
+
+    const selectedItems = await showMultiQuickPick(functionItems, {
+        title: `Select additional functions to generate for "${enumSymbol.name}"`
+    });
+
+    return selectedItems?.map(item => item.conversionFunction);
+}
+
+function functionPrefix(sourceDoc: SourceDocument): string {
+    return sourceDoc.isHeader() ? 'inline ' : '';
+}
+
+function curlySeparator(sourceDoc: SourceDocument): string {
+    return cfg.functionCurlyBraceFormat('cpp', sourceDoc) === cfg.CurlyBraceFormat.NewLine
+        ? sourceDoc.endOfLine
+        : ' ';
+}
+
+function formatFunction(signature: string, body: string, sourceDoc: SourceDocument): string {
+    const eol = sourceDoc.endOfLine;
+    return functionPrefix(sourceDoc) + signature + curlySeparator(sourceDoc) + '{' + eol
+            + util.insertBeforeEachLine(body, util.indentation()) + eol + '}';
+}
+
+function formatToString(
+    functionName: string, enumType: string, enumeratorNames: string[], sourceDoc: SourceDocument
+): string {
+    const eol = sourceDoc.endOfLine;
+    const indent = util.indentation();
+
+    let body = 'switch (value) {' + eol;
+    enumeratorNames.forEach(enumeratorName => {
+        body += `${indent}case ${enumType}::${enumeratorName}: return "${enumeratorName}";` + eol;
+    });
+    body += '}' + eol + 'return "";';
+
+    return formatFunction(`const char *${functionName}(${enumType} value)`, body, sourceDoc);
+}
+
+function formatFromString(
+    enumName: string, enumType: string, enumeratorNames: string[], sourceDoc: SourceDocument
+): string {
+    const eol = sourceDoc.endOfLine;
+    // Functions cannot be overloaded on their return type, so the name of the enum is included in the name.
+    const functionName = cfg.formatToCaseStyle(enumName + 'FromString', sourceDoc.uri);
+
+    let body = '';
+    enumeratorNames.forEach(enumeratorName => {
+        body += `if (str == "${enumeratorName}") return ${enumType}::${enumeratorName};` + eol;
+    });
+    body += 'return std::nullopt;';
+
+    return formatFunction(`std::optional<${enumType}> ${functionName}(std::string_view str)`, body, sourceDoc);
+}
+
+function formatStreamOutputOperator(toStringName: string, enumType: string, sourceDoc: SourceDocument): string {
+    return formatFunction(
+            `std::ostream &operator<<(std::ostream &os, ${enumType} value)`,
+            `return os << ${toStringName}(value);`,
+            sourceDoc);
+}
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import SubSymbol from '../SubSymbol';
+import { ProposedPosition } from '../ProposedPosition';
+import { Operand } from '../Operator';
+import { getPositionForNewSystemInclude, promptUserForOperands } from './generateOperators';
+import { logger } from '../extension';
+
+
+export const title = {
+    hashSpecialization: 'Generate std::hash Specialization'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot create a specialization.',
+    noClassOrStruct: 'No class or struct detected.',
+    isAnonymous: 'Cannot specialize std::hash for an anonymous class or struct.'
+};
+
+export async function generateHashSpecialization(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        if (classDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    if (parentClass.isAnonymous() || parentClass.scopes().some(scope => scope.isAnonymous())) {
+        logger.alertWarning(failure.isAnonymous);
+        return;
+    }
+
+    const operands = await promptUserForOperands(parentClass, 'Select what you would like to hash in std::hash');
+    if (!operands) {
+        return;
+    }
+
+    // The specialization must be declared outside of any namespace, so place it after the outermost scope.
+    const outermostScope = parentClass.scopes()[0] ?? parentClass;
+    const specializationPos = new ProposedPosition(outermostScope.trueEnd, {
+        relativeTo: outermostScope.range,
+        after: true
+    });
+
+    const specialization = formatHashSpecialization(parentClass, operands, classDoc);
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.insert(
+            classDoc.uri, specializationPos, specializationPos.formatTextToInsert(specialization, classDoc));
+
+    // Private and protected members can only be accessed if std::hash is befriended.
+    const friendPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public);
+    const needsFriend = operands.some(operand => operand instanceof CSymbol
+            && !operand.parent?.positionHasAccess(operand.range.start, util.AccessLevel.public));
+    if (friendPos && needsFriend) {
+        const friendDeclaration = `friend struct std::hash<${parentClass.templatedName()}>;`;
+        workspaceEdit.insert(classDoc.uri, friendPos, friendPos.formatTextToInsert(friendDeclaration, classDoc));
+    }
+
+    const newFunctionalIncludePos = getPositionForNewSystemInclude(classDoc, parentClass.trueStart, ['functional']);
+    if (newFunctionalIncludePos) {
+        workspaceEdit.insert(classDoc.uri, newFunctionalIncludePos, '#include <functional>' + classDoc.endOfLine);
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+function formatHashSpecialization(parentClass: CSymbol, operands: Operand[], classDoc: SourceDocument): string {
+    const eol = classDoc.endOfLine;
+    const indent = util.indentation();
+    const curlySeparator = (cfg.functionCurlyBraceFormat('cpp', classDoc) === cfg.CurlyBraceFormat.NewLine)
+            ? eol
+            : ' ';
+
+    const templateStatements = parentClass.combinedTemplateStatements(true, eol) || 'template<>' + eol;
+    const qualifiedName = [...parentClass.allScopes(), parentClass.templatedName(true)].join('::');
+
+    let body = 'std::size_t seed = 0;' + eol;
+    operands.forEach(operand => {
+        const hashedValue = operand instanceof SubSymbol
+            ? `std::hash<${operand.name}>{}(static_cast<const ${operand.name} &>(value))`
+            : `std::hash<${hashableType(operand)}>{}(value.${operand.name})`;
+        body += `seed ^= ${hashedValue} + 0x9e3779b9 + (seed << 6) + (seed >> 2);` + eol;
+    });
+    body += 'return seed;';
+
+    const callOperator = `std::size_t operator()(const ${qualifiedName} &value) const noexcept`
+            + curlySeparator + '{' + eol + util.insertBeforeEachLine(body, indent) + eol + '}';
+
+    return templateStatements + `struct std::hash<${qualifiedName}>` + curlySeparator + '{' + eol
+            + util.insertBeforeEachLine(callOperator, indent) + eol + '};';
+}
+
+/**
+ * Returns the type of memberVariable without cv-qualifiers or references, since std::hash is only enabled for
+ * unqualified types.
+ */
+function hashableType(memberVariable: CSymbol): string {
+    const leadingText = parse.removeAttributes(memberVariable.parsableLeadingText);
+    const maskedLeadingText = parse.maskAngleBrackets(leadingText);
+    const templateParamStart = maskedLeadingText.indexOf('<');
+    const templateParamEnd = maskedLeadingText.lastIndexOf('>');
+
+    const removeQualifiers = (text: string): string =>
+            text.replace(/\b(static|const|volatile|mutable|inline|constexpr)\b|&/g, '');
+
+    const type = (templateParamStart !== -1 && templateParamEnd !== -1)
+        ? removeQualifiers(leadingText.slice(0, templateParamStart))
+                + leadingText.slice(templateParamStart, templateParamEnd + 1)
+                + removeQualifiers(leadingText.slice(templateParamEnd + 1))
+        : removeQualifiers(leadingText);
+
+    return type.replace(/\s+/g, ' ').trim();
+}
@@ -9,7 +9,8 @@ import {
     Operand, Operator,
     EqualOperator, NotEqualOperator,
     LessThanOperator, GreaterThanOperator, LessThanOrEqualOperator, GreaterThanOrEqualOperator,
-    StreamOutputOperator
+    ThreeWayComparisonOperator, StreamOutputOperator, StreamInputOperator,
+    CompoundAssignmentOperator, ArithmeticOperator
 } from '../Operator';
 import { getMatchingHeaderSource, logger } from '../extension';
 import { showMultiQuickPick, showSingleQuickPick } from '../QuickPick';
@@ -18,7 +19,10 @@ import { showMultiQuickPick, showSingleQuickPick } from '../QuickPick';
 export const title = {
     equality: 'Generate Equality Operators',
     relational: 'Generate Relational Operators',
-    streamOutput: 'Generate Stream Output Operator'
+    threeWayComparison: 'Generate Three-Way Comparison Operator',
+    streamOutput: 'Generate Stream Output Operator',
+    streamInput: 'Generate Stream Input Operator',
+    arithmetic: 'Generate Arithmetic Operators'
 };
 
 export const failure = {
@@ -161,6 +165,79 @@ export async function generateRelationalOperators(
     return vscode.workspace.applyEdit(workspaceEdit);
 }
 
+export async function generateThreeWayComparison(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    const styleItem = await showSingleQuickPick<ThreeWayComparisonStyleItem>([
+        { label: '= default', description: 'Compares base classes and members in declaration order', defaulted: true },
+        { label: 'Member-wise', description: 'Compares the selected base classes and members', defaulted: false }
+    ], { title: 'Select how operator<=> should be defined' });
+    if (!styleItem) {
+        return;
+    }
+
+    const declarationPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public);
+    if (!declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const newCompareIncludePos = getPositionForNewSystemInclude(classDoc, declarationPos, ['compare']);
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+
+    if (styleItem.defaulted) {
+        const threeWayComparisonOp = new ThreeWayComparisonOperator(parentClass);
+        let declaration = threeWayComparisonOp.declaration + ' = default;';
+        if (!parentClass.positionHasAccess(declarationPos, util.AccessLevel.public)) {
+            declaration = util.accessSpecifierString(util.AccessLevel.public) + classDoc.endOfLine + declaration;
+        }
+        workspaceEdit.insert(classDoc.uri, declarationPos, declarationPos.formatTextToInsert(declaration, classDoc));
+    } else {
+        const operands = await promptUserForOperands(
+                parentClass, 'Select what you would like to compare in operator<=>');
+        if (!operands) {
+            return;
+        }
+
+        const threeWayComparisonOp = new ThreeWayComparisonOperator(parentClass, operands);
+
+        const targets = await promptUserForDefinitionLocations(
+                parentClass, classDoc, declarationPos, 'Select where to place the definition of operator<=>');
+        if (!targets) {
+            return;
+        }
+
+        await addNewOperatorToWorkspaceEdit(
+                threeWayComparisonOp, declarationPos, classDoc, targets.first, workspaceEdit);
+    }
+
+    if (newCompareIncludePos) {
+        workspaceEdit.insert(classDoc.uri, newCompareIncludePos, '#include <compare>' + classDoc.endOfLine);
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
 export async function generateStreamOutputOperator(
     parentClass?: CSymbol,
     classDoc?: SourceDocument
@@ -191,7 +268,7 @@ export async function generateStreamOutputOperator(
         return;
     }
 
-    const newOstreamIncludePos = getPositionForOstreamInclude(classDoc, declarationPos);
+    const newOstreamIncludePos = getPositionForNewSystemInclude(classDoc, declarationPos, ['ostream', 'iostream']);
 
     const operands = await p_operands;
     if (!operands) {
@@ -215,22 +292,179 @@ export async function generateStreamOutputOperator(
     return vscode.workspace.applyEdit(workspaceEdit);
 }
 
+export async function generateStreamInputOperator(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    const p_operands = promptUserForOperands(parentClass, 'Select what you would like to extract in operator>>');
+
+    const declarationPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public);
+    if (!declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const newIstreamIncludePos = getPositionForNewSystemInclude(classDoc, declarationPos, ['istream', 'iostream']);
+
+    const operands = await p_operands;
+    if (!operands) {
+        return;
+    }
+
+    const streamInputOp = new StreamInputOperator(parentClass, operands);
+
+    const targets = await promptUserForDefinitionLocations(
+            parentClass, classDoc, declarationPos, 'Select where to place the definition of operator>>');
+    if (!targets) {
+        return;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    await addNewOperatorToWorkspaceEdit(streamInputOp, declarationPos, classDoc, targets.first, workspaceEdit);
+    if (newIstreamIncludePos) {
+        workspaceEdit.insert(classDoc.uri, newIstreamIncludePos, '#include <istream>' + classDoc.endOfLine);
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+export async function generateArithmeticOperators(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    const arithmeticSymbols = await promptUserForArithmeticFamilies(parentClass);
+    if (!arithmeticSymbols || arithmeticSymbols.length === 0) {
+        return;
+    }
+
+    const p_operands = promptUserForOperands(
+            parentClass, 'Select what the compound assignment operators should apply the operation to');
+
+    const declarationPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public);
+    if (!declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const operands = await p_operands;
+    if (!operands) {
+        return;
+    }
+
+    const compoundOps: CompoundAssignmentOperator[] = [];
+    const arithmeticOps: ArithmeticOperator[] = [];
+    for (const arithmeticSymbol of arithmeticSymbols) {
+        compoundOps.push(new CompoundAssignmentOperator(parentClass, arithmeticSymbol, operands));
+        arithmeticOps.push(new ArithmeticOperator(parentClass, arithmeticSymbol));
+    }
+
+    const targets = await promptUserForDefinitionLocations(
+            parentClass, classDoc, declarationPos,
+            'Select where to place the definitions of the compound assignment operators',
+            'Select where to place the definitions of the arithmetic operators');
+    if (!targets) {
+        return;
+    }
+
+    const nextPosition = new ProposedPosition(declarationPos, {
+        relativeTo: declarationPos.options.relativeTo,
+        after: true,
+        nextTo: true,
+        indent: declarationPos.options.indent
+    });
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    for (const compoundOp of compoundOps) {
+        const isFirst = compoundOp === compoundOps[0];
+        await addNewOperatorToWorkspaceEdit(
+                compoundOp, isFirst ? declarationPos : nextPosition, classDoc, targets.first, workspaceEdit, !isFirst);
+    }
+    if (targets.second) {
+        for (const arithmeticOp of arithmeticOps) {
+            await addNewOperatorToWorkspaceEdit(
+                    arithmeticOp, nextPosition, classDoc, targets.second, workspaceEdit, true);
+        }
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
 /**
- * Returns undefined if the file already includes ostream or iostream.
+ * Returns undefined if the file already directly includes any of headerNames.
  */
-function getPositionForOstreamInclude(
-    classDoc: SourceDocument, declarationPos: vscode.Position
+export function getPositionForNewSystemInclude(
+    classDoc: SourceDocument, declarationPos: vscode.Position, headerNames: string[]
 ): vscode.Position | undefined {
-    if (!classDoc.includedFiles.some(file => file === 'ostream' || file === 'iostream')) {
+    if (!classDoc.includedFiles.some(file => headerNames.includes(file))) {
         return classDoc.findPositionForNewInclude(declarationPos).system;
     }
 }
 
+interface ThreeWayComparisonStyleItem extends vscode.QuickPickItem {
+    defaulted: boolean;
+}
+
+interface ArithmeticFamilyItem extends vscode.QuickPickItem {
+    arithmeticSymbol: string;
+}
+
+async function promptUserForArithmeticFamilies(parentClass: CSymbol): Promise<string[] | undefined> {
+    const familyItems: ArithmeticFamilyItem[] = [
+        { label: 'Addition', description: 'operator+=, operator+', arithmeticSymbol: '+', picked: true },
+        { label: 'Subtraction', description: 'operator-=, operator-', arithmeticSymbol: '-', picked: true },
+        { label: 'Multiplication', description: 'operator*=, operator*', arithmeticSymbol: '*', picked: true },
+        { label: 'Division', description: 'operator/=, operator/', arithmeticSymbol: '/', picked: true }
+    ];
+
+    const selectedItems = await showMultiQuickPick(familyItems, {
+        matchOnDescription: true,
+        title: `Select the arithmetic operators to generate for "${parentClass.name}"`
+    });
+
+    return selectedItems?.map(item => item.arithmeticSymbol);
+}
+
 interface OperandItem extends vscode.QuickPickItem {
     operand: Operand;
 }
 
-async function promptUserForOperands(parentClass: CSymbol, prompt: string): Promise<Operand[] | undefined> {
+export async function promptUserForOperands(parentClass: CSymbol, prompt: string): Promise<Operand[] | undefined> {
     const operands: Operand[] = [...parentClass.baseClasses(), ...parentClass.nonStaticMemberVariables()];
     if (operands.length === 0) {
         return [];
@@ -287,12 +521,12 @@ function getDefinitionLocationItems(parentClass: CSymbol, sourceDoc: SourceDocum
     return items;
 }
 
-interface TargetLocations {
+export interface TargetLocations {
     first: TargetLocation;
     second?: TargetLocation;
 }
 
-async function promptUserForDefinitionLocations(
+export async function promptUserForDefinitionLocations(
     parentClass: CSymbol,
     classDoc: SourceDocument,
     declarationPos: ProposedPosition,
@@ -343,7 +577,7 @@ async function promptUserForDefinitionLocations(
     return { first: firstTargetLocation, second: secondTargetLocation };
 }
 
-async function addNewOperatorToWorkspaceEdit(
+export async function addNewOperatorToWorkspaceEdit(
     newOperator: Operator,
     declarationPos: ProposedPosition,
     classDoc: SourceDocument,
@@ -352,13 +586,11 @@ async function addNewOperatorToWorkspaceEdit(
     skipAccessSpecifierCheck?: boolean
 ): Promise<void> {
     if (target.sourceDoc.fileName === classDoc.fileName && target.position.isEqual(declarationPos)) {
-        const curlySeparator = (cfg.functionCurlyBraceFormat('cpp', classDoc) === cfg.CurlyBraceFormat.NewLine)
-                ? target.sourceDoc.endOfLine
-                : ' ';
+        const curlySeparator = getCurlySeparator(newOperator, classDoc);
 
-        let formattedInlineDefinition = (newOperator.body.includes('\n'))
+        let formattedInlineDefinition = (newOperator.body.includes('\n') || newOperator.initializerList)
                 ? await newOperator.definition(classDoc, declarationPos, curlySeparator)
-                : newOperator.declaration + ' { ' + newOperator.body + ' }';
+                : newOperator.declaration + (newOperator.body ? ' { ' + newOperator.body + ' }' : ' { }');
         if (!skipAccessSpecifierCheck
                 && !newOperator.parent?.positionHasAccess(declarationPos, util.AccessLevel.public)) {
             formattedInlineDefinition = util.accessSpecifierString(util.AccessLevel.public)
@@ -368,9 +600,7 @@ async function addNewOperatorToWorkspaceEdit(
 
         workspaceEdit.insert(classDoc.uri, declarationPos, formattedInlineDefinition);
     } else {
-        const curlySeparator = (cfg.functionCurlyBraceFormat('cpp', target.sourceDoc) === cfg.CurlyBraceFormat.NewLine)
-                ? target.sourceDoc.endOfLine
-                : ' ';
+        const curlySeparator = getCurlySeparator(newOperator, target.sourceDoc);
 
         let formattedDeclaration = newOperator.declaration + ';';
         if (!skipAccessSpecifierCheck
@@ -387,3 +617,12 @@ async function addNewOperatorToWorkspaceEdit(
         workspaceEdit.insert(target.sourceDoc.uri, target.position, formattedDefinition);
     }
 }
+
+function getCurlySeparator(newOperator: Operator, targetDoc: SourceDocument): string {
+    const curlyBraceFormat = cfg.functionCurlyBraceFormat('cpp', targetDoc);
+    // Constructors and destructors are the only operators without a return type.
+    return (curlyBraceFormat === cfg.CurlyBraceFormat.NewLine
+            || (curlyBraceFormat === cfg.CurlyBraceFormat.NewLineCtorDtor && newOperator.returnType === ''))
+        ? targetDoc.endOfLine
+        : ' ';
+}
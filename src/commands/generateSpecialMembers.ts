@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import * as util from '../utility';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import FunctionSignature from '../FunctionSignature';
+import { ProposedPosition } from '../ProposedPosition';
+import {
+    Operand, SpecialMemberFunction,
+    Destructor, CopyConstructor, MoveConstructor, CopyAssignmentOperator, MoveAssignmentOperator
+} from '../Operator';
+import {
+    addNewOperatorToWorkspaceEdit, getPositionForNewSystemInclude, promptUserForDefinitionLocations
+} from './generateOperators';
+import { logger } from '../extension';
+import { showMultiQuickPick, showSingleQuickPick } from '../QuickPick';
+
+
+export const title = {
+    specialMembers: 'Generate Special Member Functions'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot create a member function.',
+    noClassOrStruct: 'No class or struct detected.',
+    positionNotFound: 'Could not find a position for a new public member function.',
+    allSpecialMembersExist: 'All special member functions already exist.'
+};
+
+enum SpecialMember {
+    Destructor,
+    CopyConstructor,
+    MoveConstructor,
+    CopyAssignment,
+    MoveAssignment
+}
+
+enum DefinitionStyle {
+    Default,
+    Delete,
+    MemberWise
+}
+
+export async function generateSpecialMembers(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        if (classDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    const existingMembers = findExistingSpecialMembers(parentClass);
+    if (existingMembers.size === Object.keys(specialMemberInfo).length) {
+        logger.alertInformation(failure.allSpecialMembersExist);
+        return;
+    }
+
+    const style = await promptUserForDefinitionStyle();
+    if (style === undefined) {
+        return;
+    }
+
+    const selectedMembers = await promptUserForSpecialMembers(parentClass, existingMembers, style);
+    if (!selectedMembers || selectedMembers.length === 0) {
+        return;
+    }
+
+    const declarationPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public, parentClass.name);
+    if (!declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const operands: Operand[] = [...parentClass.baseClasses(), ...parentClass.nonStaticMemberVariables()];
+    const newMembers: SpecialMemberFunction[] = [];
+    for (const member of selectedMembers) {
+        newMembers.push(specialMemberInfo[member].create(parentClass, operands));
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+
+    if (style === DefinitionStyle.MemberWise) {
+        const targets = await promptUserForDefinitionLocations(
+                parentClass, classDoc, declarationPos, 'Select where to place the definitions of the special members');
+        if (!targets) {
+            return;
+        }
+
+        const nextPosition = new ProposedPosition(declarationPos, {
+            relativeTo: declarationPos.options.relativeTo,
+            after: true,
+            nextTo: true,
+            indent: declarationPos.options.indent
+        });
+
+        for (const newMember of newMembers) {
+            const isFirst = newMember === newMembers[0];
+            await addNewOperatorToWorkspaceEdit(
+                    newMember, isFirst ? declarationPos : nextPosition, classDoc, targets.first, workspaceEdit, !isFirst);
+        }
+
+        const newUtilityIncludePos = getPositionForNewSystemInclude(classDoc, declarationPos, ['utility']);
+        if (newUtilityIncludePos && (selectedMembers.includes(SpecialMember.MoveConstructor)
+                || selectedMembers.includes(SpecialMember.MoveAssignment))) {
+            workspaceEdit.insert(classDoc.uri, newUtilityIncludePos, '#include <utility>' + classDoc.endOfLine);
+        }
+    } else {
+        const eol = classDoc.endOfLine;
+        const specifier = style === DefinitionStyle.Default ? ' = default;' : ' = delete;';
+        let declarations = newMembers.map(newMember => newMember.declaration + specifier).join(eol);
+        if (!parentClass.positionHasAccess(declarationPos, util.AccessLevel.public)) {
+            declarations = util.accessSpecifierString(util.AccessLevel.public) + eol + declarations;
+        }
+        workspaceEdit.insert(classDoc.uri, declarationPos, declarationPos.formatTextToInsert(declarations, classDoc));
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+interface SpecialMemberInfo {
+    label: string;
+    create: (parentClass: CSymbol, operands: Operand[]) => SpecialMemberFunction;
+}
+
+const specialMemberInfo: { [member in SpecialMember]: SpecialMemberInfo } = {
+    [SpecialMember.Destructor]: {
+        label: 'Destructor',
+        create: parentClass => new Destructor(parentClass)
+    },
+    [SpecialMember.CopyConstructor]: {
+        label: 'Copy Constructor',
+        create: (parentClass, operands) => new CopyConstructor(parentClass, operands)
+    },
+    [SpecialMember.MoveConstructor]: {
+        label: 'Move Constructor',
+        create: (parentClass, operands) => new MoveConstructor(parentClass, operands)
+    },
+    [SpecialMember.CopyAssignment]: {
+        label: 'Copy Assignment Operator',
+        create: (parentClass, operands) => new CopyAssignmentOperator(parentClass, operands)
+    },
+    [SpecialMember.MoveAssignment]: {
+        label: 'Move Assignment Operator',
+        create: (parentClass, operands) => new MoveAssignmentOperator(parentClass, operands)
+    }
+};
+
+/**
+ * Copy/move constructors and assignment operators are identified by their single parameter's type.
+ */
+function findExistingSpecialMembers(parentClass: CSymbol): Set<SpecialMember> {
+    const existingMembers = new Set<SpecialMember>();
+
+    parentClass.children.forEach(child => {
+        const memberFunction = new CSymbol(child, parentClass.document);
+        if (memberFunction.isDestructor()) {
+            existingMembers.add(SpecialMember.Destructor);
+            return;
+        } else if (!memberFunction.isConstructor() && memberFunction.name !== 'operator=') {
+            return;
+        }
+
+        const parameters = new FunctionSignature(memberFunction).parameters;
+        if (parameters.length !== 1) {
+            return;
+        }
+
+        const type = parameters[0].normalizedType.replace(/<.*>/, '').replace(/\s+/g, '');
+        const isCopy = type === 'const' + parentClass.name + '&' || type === parentClass.name + 'const&'
+                || (memberFunction.name === 'operator=' && type === parentClass.name);
+        const isMove = type === parentClass.name + '&&';
+
+        if (memberFunction.isConstructor()) {
+            if (isCopy) {
+                existingMembers.add(SpecialMember.CopyConstructor);
+            } else if (isMove) {
+                existingMembers.add(SpecialMember.MoveConstructor);
+            }
+        } else if (isCopy) {
+            existingMembers.add(SpecialMember.CopyAssignment);
+        } else if (isMove) {
+            existingMembers.add(SpecialMember.MoveAssignment);
+        }
+    });
+
+    return existingMembers;
+}
+
+interface DefinitionStyleItem extends vscode.QuickPickItem {
+    style: DefinitionStyle;
+}
+
+async function promptUserForDefinitionStyle(): Promise<DefinitionStyle | undefined> {
+    const styleItems: DefinitionStyleItem[] = [
+        { label: '= default', description: 'Explicitly defaulted', style: DefinitionStyle.Default },
+        { label: '= delete', description: 'Deleted', style: DefinitionStyle.Delete },
+        { label: 'Member-wise', description: 'Definitions that copy/move each base class and member variable',
+            style: DefinitionStyle.MemberWise }
+    ];
+
+    const selectedItem = await showSingleQuickPick(styleItems, {
+        title: 'Select how the special member functions should be defined'
+    });
+
+    return selectedItem?.style;
+}
+
+interface SpecialMemberItem extends vscode.QuickPickItem {
+    member: SpecialMember;
+}
+
+async function promptUserForSpecialMembers(
+    parentClass: CSymbol, existingMembers: Set<SpecialMember>, style: DefinitionStyle
+): Promise<SpecialMember[] | undefined> {
+    const memberItems: SpecialMemberItem[] = [];
+    for (const member of [
+        SpecialMember.Destructor,
+        SpecialMember.CopyConstructor,
+        SpecialMember.MoveConstructor,
+        SpecialMember.CopyAssignment,
+        SpecialMember.MoveAssignment
+    ]) {
+        // Deleting the destructor is rarely intended, so it is not offered.
+        if (existingMembers.has(member) || (member === SpecialMember.Destructor && style === DefinitionStyle.Delete)) {
+            continue;
+        }
+        memberItems.push({
+            label: specialMemberInfo[member].label,
+            description: specialMemberInfo[member].create(parentClass, []).declaration,
+            member: member,
+            picked: true
+        });
+    }
+
+    if (memberItems.length === 0) {
+        logger.alertInformation(failure.allSpecialMembersExist);
+        return;
+    }
+
+    const selectedItems = await showMultiQuickPick(memberItems, {
+        matchOnDescription: true,
+        title: `Select the special member functions to generate for "${parentClass.name}"`
+    });
+
+    return selectedItems?.map(item => item.member);
+}
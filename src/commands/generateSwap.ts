@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as util from '../utility';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import { ProposedPosition } from '../ProposedPosition';
+import { SwapFunction, FriendSwapFunction } from '../Operator';
+import {
+    addNewOperatorToWorkspaceEdit, getPositionForNewSystemInclude, promptUserForDefinitionLocations
+} from './generateOperators';
+import { logger } from '../extension';
+
+
+export const title = {
+    swap: 'Generate Swap Functions'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot create a member function.',
+    noClassOrStruct: 'No class or struct detected.',
+    positionNotFound: 'Could not find a position for a new public member function.',
+    swapExists: 'This class already has a swap member function.'
+};
+
+export async function generateSwap(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        if (classDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    if (parentClass.children.some(child => child.name === 'swap')) {
+        logger.alertInformation(failure.swapExists);
+        return;
+    }
+
+    const declarationPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public);
+    if (!declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const memberVariables = parentClass.nonStaticMemberVariables();
+    const memberSwap = new SwapFunction(parentClass, memberVariables);
+    const friendSwap = new FriendSwapFunction(parentClass);
+
+    const targets = await promptUserForDefinitionLocations(
+            parentClass, classDoc, declarationPos,
+            'Select where to place the definition of the swap member function',
+            'Select where to place the definition of the friend swap function');
+    if (!targets) {
+        return;
+    }
+
+    const friendSwapPos = new ProposedPosition(declarationPos, {
+        relativeTo: declarationPos.options.relativeTo,
+        after: true,
+        nextTo: true,
+        indent: declarationPos.options.indent
+    });
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    await addNewOperatorToWorkspaceEdit(memberSwap, declarationPos, classDoc, targets.first, workspaceEdit);
+    if (targets.second) {
+        await addNewOperatorToWorkspaceEdit(friendSwap, friendSwapPos, classDoc, targets.second, workspaceEdit, true);
+    }
+
+    const newUtilityIncludePos = getPositionForNewSystemInclude(classDoc, declarationPos, ['utility']);
+    if (newUtilityIncludePos && memberVariables.length > 0) {
+        workspaceEdit.insert(classDoc.uri, newUtilityIncludePos, '#include <utility>' + classDoc.endOfLine);
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
@@ -0,0 +1,607 @@
+import * as vscode from 'vscode';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import FunctionSignature from '../FunctionSignature';
+import { Parameter, parseParameterList } from '../ParameterList';
+import { getDeletionRange } from './moveDefinition';
+import { parseVariableType } from './extractFunction';
+import { logger } from '../extension';
+import { showSingleQuickPick } from '../QuickPick';
+
+
+export const title = {
+    inlineFunction: 'Inline Function'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCOrCpp: 'Detected language is not C or C++, cannot inline a function.',
+    noFunctionCall: 'No function call detected.',
+    isMemberAccess: 'Cannot inline a function that is called on an object.',
+    noDefinition: 'Could not find the definition of this function.',
+    isRecursive: 'Cannot inline a recursive function call.',
+    isTemplate: 'Cannot inline a function template.',
+    isSpecialMember: 'Cannot inline constructors, destructors, or operators.',
+    isVariadic: 'Cannot inline a variadic function.',
+    differentClass: 'Member functions can only be inlined into member functions of the same class.',
+    tooComplex: 'Only functions whose body is a single return statement, or void functions without a return '
+            + 'statement, can be inlined.',
+    notStatement: 'A void function can only be inlined where it is called as a statement.',
+    modifiesParameter: 'Cannot inline a function that modifies a parameter that is passed by value.',
+    argumentEvaluatedTwice: 'Cannot inline a function that would evaluate an argument more than once.'
+};
+
+/**
+ * Represents a call to a function within a function definition.
+ */
+export interface FunctionCall {
+    /** The range from the start of the (possibly qualified) name of the function to the closing parenthesis. */
+    range: vscode.Range;
+    nameRange: vscode.Range;
+    argumentsRange: vscode.Range;
+    /** Whether the function is called through an object, such as `obj.f()` or `ptr->f()`. */
+    isMemberAccess: boolean;
+}
+
+/**
+ * Replaces the call to a function at position with the body of that function, substituting its parameters with the
+ * arguments of the call. If no references to the function remain, offers to delete its definition and declaration.
+ */
+export async function inlineFunction(
+    sourceDoc?: SourceDocument,
+    position?: vscode.Position
+): Promise<boolean | undefined> {
+    if (!sourceDoc || !position) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        sourceDoc = new SourceDocument(editor.document);
+        if (sourceDoc.languageId !== 'c' && sourceDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCOrCpp);
+            return;
+        }
+
+        position = editor.selection.start;
+    }
+
+    const callerSymbol = await sourceDoc.getSymbol(position);
+    const functionCall = callerSymbol?.isFunctionDefinition() ? findFunctionCall(callerSymbol, position) : undefined;
+    if (!callerSymbol || !functionCall) {
+        logger.alertWarning(failure.noFunctionCall);
+        return;
+    } else if (functionCall.isMemberAccess) {
+        logger.alertWarning(failure.isMemberAccess);
+        return;
+    }
+
+    const { definition, declaration } = await findDefinitionAndDeclaration(sourceDoc, functionCall.nameRange.start);
+    if (!definition) {
+        logger.alertWarning(failure.noDefinition);
+        return;
+    }
+
+    const definitionFailure = await failureIfCannotInline(definition, callerSymbol);
+    if (definitionFailure) {
+        logger.alertWarning(definitionFailure);
+        return;
+    }
+
+    const signature = new FunctionSignature(definition);
+    const callArguments = parseParameterList(sourceDoc, functionCall.argumentsRange);
+    const parameterArguments = await getParameterArguments(signature, callArguments, callerSymbol);
+    const body = getFunctionBody(definition);
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const returnExpression = getReturnExpression(body);
+    if (returnExpression) {
+        const substitutionFailure = failureIfCannotSubstitute(body.maskedText, parameterArguments);
+        if (substitutionFailure) {
+            logger.alertWarning(substitutionFailure);
+            return;
+        }
+
+        // An expression cannot declare temporaries, so arguments are converted to the types of the parameters.
+        const languageId = sourceDoc.languageId;
+        const substitutions = new Map(parameterArguments.map(parameterArgument => [
+            parameterArgument.parameter.name,
+            parameterArgument.needsConversion
+                ? formatConversion(parameterArgument, languageId)
+                : parameterArgument.argument
+        ]));
+        const expression = substituteParameters(returnExpression.text, returnExpression.maskedText, substitutions);
+        workspaceEdit.replace(sourceDoc.uri, functionCall.range, parenthesizeIfNeeded(expression));
+    } else if (signature.normalizedReturnType === 'void' && !/\breturn\b/.test(body.maskedText)) {
+        const statementRange = getStatementRange(callerSymbol, functionCall);
+        if (!statementRange) {
+            logger.alertWarning(failure.notStatement);
+            return;
+        }
+
+        const temporaries = getTemporaries(body.maskedText, parameterArguments);
+        const substitutedArguments = parameterArguments.filter(parameterArgument =>
+                !temporaries.some(temporary => temporary.parameterArgument === parameterArgument));
+        const substitutionFailure = failureIfCannotSubstitute(body.maskedText, substitutedArguments);
+        if (substitutionFailure) {
+            logger.alertWarning(substitutionFailure);
+            return;
+        }
+
+        const substitutions = new Map([
+            ...substitutedArguments.map(({ parameter, argument }): [string, string] => [parameter.name, argument]),
+            ...temporaries.map(({ parameterArgument, name }): [string, string] => [parameterArgument.parameter.name, name])
+        ]);
+        const statements = formatStatements(
+                body, substitutions, temporaries, definition, sourceDoc, statementRange.start);
+        workspaceEdit.replace(sourceDoc.uri, statementRange, statements);
+    } else {
+        logger.alertWarning(failure.tooComplex);
+        return;
+    }
+
+    if (await shouldDeleteFunction(definition, declaration, functionCall, sourceDoc)) {
+        workspaceEdit.delete(definition.uri, getDeletionRange(definition));
+        if (declaration) {
+            workspaceEdit.delete(declaration.uri, getDeletionRange(declaration));
+        }
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+const re_notFunctionNames = new RegExp('^(if|for|while|switch|return|sizeof|alignof|alignas|decltype|typeid|catch'
+        + '|noexcept|static_assert|static_cast|dynamic_cast|const_cast|reinterpret_cast)$');
+
+/**
+ * Returns the function call in the body of functionSymbol whose name contains position.
+ */
+export function findFunctionCall(functionSymbol: CSymbol, position: vscode.Position): FunctionCall | undefined {
+    const document = functionSymbol.document;
+    const text = functionSymbol.parsableText;
+    const startOffset = functionSymbol.startOffset();
+    const bodyStartIndex = document.offsetAt(functionSymbol.bodyStart()) - startOffset;
+    const relativeOffset = document.offsetAt(position) - startOffset;
+    if (relativeOffset < bodyStartIndex || relativeOffset > text.length) {
+        return;
+    }
+
+    let nameStartIndex = relativeOffset;
+    while (nameStartIndex > bodyStartIndex && /[\w\d_]/.test(text[nameStartIndex - 1])) {
+        --nameStartIndex;
+    }
+    let nameEndIndex = relativeOffset;
+    while (nameEndIndex < text.length && /[\w\d_]/.test(text[nameEndIndex])) {
+        ++nameEndIndex;
+    }
+
+    const name = text.slice(nameStartIndex, nameEndIndex);
+    const openParenMatch = text.slice(nameEndIndex).match(/^\s*\(/);
+    if (!/^[A-Za-z_]/.test(name) || re_notFunctionNames.test(name) || !openParenMatch) {
+        return;
+    }
+
+    const openParenIndex = nameEndIndex + openParenMatch[0].length - 1;
+    const closeParenIndex = parse.maskParentheses(text.slice(openParenIndex)).indexOf(')') + openParenIndex;
+    if (closeParenIndex < openParenIndex) {
+        return;
+    }
+
+    const textBeforeName = text.slice(bodyStartIndex, nameStartIndex);
+    const qualifierMatch = textBeforeName.match(/(::\s*)?([\w_][\w\d_]*\s*::\s*)*$/);
+    const callStartIndex = nameStartIndex - (qualifierMatch ? qualifierMatch[0].length : 0);
+
+    return {
+        range: new vscode.Range(
+                document.positionAt(startOffset + callStartIndex),
+                document.positionAt(startOffset + closeParenIndex + 1)),
+        nameRange: new vscode.Range(
+                document.positionAt(startOffset + nameStartIndex),
+                document.positionAt(startOffset + nameEndIndex)),
+        argumentsRange: new vscode.Range(
+                document.positionAt(startOffset + openParenIndex + 1),
+                document.positionAt(startOffset + closeParenIndex)),
+        isMemberAccess: /(\.|->)\s*$/.test(text.slice(bodyStartIndex, callStartIndex))
+    };
+}
+
+/**
+ * Going to the definition from a call may lead to the declaration of the function (such as when the definition is in
+ * a source file that the language server hasn't parsed yet), in which case the definition is found from there.
+ */
+async function findDefinitionAndDeclaration(
+    sourceDoc: SourceDocument, namePosition: vscode.Position
+): Promise<{ definition?: CSymbol; declaration?: CSymbol }> {
+    const locations = await sourceDoc.findDefinitions(namePosition);
+    if (locations.length === 0) {
+        return {};
+    }
+
+    const symbol = await getSymbolAtLocation(locations[0], sourceDoc);
+    if (symbol?.isFunctionDeclaration()) {
+        const definitionLocation = await util.findDefinition(symbol);
+        const definition = definitionLocation ? await getSymbolAtLocation(definitionLocation, sourceDoc) : undefined;
+        return { definition: definition?.isFunctionDefinition() ? definition : undefined, declaration: symbol };
+    } else if (!symbol?.isFunctionDefinition()) {
+        return {};
+    }
+
+    const declarationLocation = await util.findDeclaration(symbol);
+    const declaration = declarationLocation ? await getSymbolAtLocation(declarationLocation, sourceDoc) : undefined;
+    return { definition: symbol, declaration: declaration?.isFunctionDeclaration() ? declaration : undefined };
+}
+
+async function getSymbolAtLocation(location: vscode.Location, sourceDoc: SourceDocument): Promise<CSymbol | undefined> {
+    const document = (location.uri.fsPath === sourceDoc.uri.fsPath)
+            ? sourceDoc
+            : await SourceDocument.open(location.uri);
+    return document.getSymbol(location.range.start);
+}
+
+async function failureIfCannotInline(definition: CSymbol, callerSymbol: CSymbol): Promise<string | undefined> {
+    if (definition.uri.fsPath === callerSymbol.uri.fsPath && definition.range.isEqual(callerSymbol.range)) {
+        return failure.isRecursive;
+    } else if (definition.hasUnspecializedTemplate()) {
+        return failure.isTemplate;
+    } else if (definition.isConstructor() || definition.isDestructor() || definition.kind === vscode.SymbolKind.Operator
+            || /\boperator\b/.test(definition.name)) {
+        return failure.isSpecialMember;
+    }
+
+    const signature = new FunctionSignature(definition);
+    if (signature.parameters.some(parameter => parameter.text === '...')) {
+        return failure.isVariadic;
+    }
+
+    // The body of a member function refers to the members of its class, so it can only be inlined in that class.
+    const definitionClass = definition.parent?.isClassType() ? definition.parent : await definition.getParentClass();
+    if (definitionClass && !definition.isStatic()) {
+        const callerClass = callerSymbol.parent?.isClassType()
+                ? callerSymbol.parent
+                : await callerSymbol.getParentClass();
+        if (!callerClass || callerClass.uri.fsPath !== definitionClass.uri.fsPath
+                || !callerClass.range.isEqual(definitionClass.range)) {
+            return failure.differentClass;
+        }
+    }
+}
+
+interface FunctionBody {
+    text: string;
+    maskedText: string;
+    /** The position of the first character of text. */
+    start: vscode.Position;
+}
+
+function getFunctionBody(definition: CSymbol): FunctionBody {
+    const document = definition.document;
+    const startOffset = definition.startOffset();
+    const bodyStartIndex = document.offsetAt(definition.bodyStart()) - startOffset;
+    const bodyEndIndex = document.offsetAt(definition.bodyEnd()) - startOffset;
+    const maskedBody = definition.parsableText.slice(bodyStartIndex, bodyEndIndex);
+
+    const leadingWhitespaceLength = maskedBody.length - maskedBody.trimStart().length;
+    const trimmedLength = maskedBody.trim().length;
+    const trimmedStartIndex = bodyStartIndex + leadingWhitespaceLength;
+
+    return {
+        text: definition.text().slice(trimmedStartIndex, trimmedStartIndex + trimmedLength),
+        maskedText: maskedBody.trim(),
+        start: document.positionAt(startOffset + trimmedStartIndex)
+    };
+}
+
+/**
+ * Returns the expression of the return statement if it is the only statement in body.
+ */
+function getReturnExpression(body: FunctionBody): { text: string; maskedText: string } | undefined {
+    const statementCount = parse.maskBraces(parse.maskParentheses(body.maskedText)).split(';').length - 1;
+    const returnMatch = body.maskedText.match(/^return\b\s*/);
+    if (statementCount !== 1 || !returnMatch || !body.maskedText.endsWith(';')) {
+        return;
+    }
+
+    const expressionEndIndex = body.maskedText.length - 1;
+    return {
+        text: body.text.slice(returnMatch[0].length, expressionEndIndex).trimEnd(),
+        maskedText: body.maskedText.slice(returnMatch[0].length, expressionEndIndex).trimEnd()
+    };
+}
+
+/**
+ * A parameter of the inlined function and the argument that is passed to it by the call.
+ */
+interface ParameterArgument {
+    parameter: Parameter;
+    argument: string;
+    /**
+     * Whether the argument might need to be converted to the type of the parameter. This is true if the type of the
+     * argument cannot be determined (only literals and variables are looked up).
+     */
+    needsConversion: boolean;
+}
+
+async function getParameterArguments(
+    signature: FunctionSignature, callArguments: readonly Parameter[], callerSymbol: CSymbol
+): Promise<ParameterArgument[]> {
+    const namedParameters = signature.parameters.filter(parameter => parameter.name);
+    const argumentTypes = await Promise.all(namedParameters.map(parameter => {
+        const index = signature.parameters.indexOf(parameter);
+        return index < callArguments.length ? getArgumentType(callArguments[index], callerSymbol) : undefined;
+    }));
+
+    return namedParameters.map((parameter, i) => {
+        const index = signature.parameters.indexOf(parameter);
+        const argumentType = argumentTypes[i];
+        return {
+            parameter: parameter,
+            argument: index < callArguments.length ? callArguments[index].text.trim() : parameter.defaultValue,
+            needsConversion: !isNonConstLvalueReference(parameter) && !isArrayOrFunction(parameter)
+                    && (argumentType === undefined || stripType(argumentType) !== stripType(parameter.type))
+        };
+    });
+}
+
+/**
+ * Returns the type of a literal, or the declared type of a variable, or undefined if argument is anything else.
+ */
+async function getArgumentType(argument: Parameter, callerSymbol: CSymbol): Promise<string | undefined> {
+    const text = argument.text.trim();
+    if (/^(true|false)$/.test(text)) {
+        return 'bool';
+    } else if (/^'([^'\\]|\\.)'$/.test(text)) {
+        return 'char';
+    } else if (/^(0[xX][\da-fA-F']+|\d[\d']*)$/.test(text)) {
+        return 'int';
+    } else if (/^(\d[\d']*\.[\d']*|\.\d[\d']*|\d[\d']*(?=[eE]))([eE][-+]?\d+)?([fF]?)$/.test(text)) {
+        return /[fF]$/.test(text) ? 'float' : 'double';
+    } else if (!/^[A-Za-z_][\w\d_]*$/.test(text)) {
+        return;
+    }
+
+    const document = callerSymbol.document;
+    const location = (await document.findDefinitions(argument.range.start))[0];
+    if (!location) {
+        return;
+    } else if (location.uri.fsPath === document.uri.fsPath && callerSymbol.range.contains(location.range.start)) {
+        return parseVariableType(callerSymbol, document.offsetAt(location.range.start) - callerSymbol.startOffset());
+    }
+
+    const variable = await getSymbolAtLocation(location, document);
+    if (variable?.isVariable()) {
+        return variable.parsableLeadingText.replace(/\b(static|thread_local|extern|inline|mutable|constexpr)\b/g, '');
+    }
+}
+
+/**
+ * Strips cv-qualifiers, references, and whitespace from type, for the purpose of comparing types.
+ */
+function stripType(type: string): string {
+    return parse.normalizeSourceText(type).replace(/\b(const|volatile)\b|&|\s+/g, '');
+}
+
+function isNonConstLvalueReference(parameter: Parameter): boolean {
+    const maskedType = parse.maskAngleBrackets(parameter.type);
+    return maskedType.includes('&') && !maskedType.includes('&&') && !/\bconst\b/.test(maskedType);
+}
+
+function isArrayOrFunction(parameter: Parameter): boolean {
+    return /[[(]/.test(parse.maskAngleBrackets(parameter.type));
+}
+
+function formatConversion(parameterArgument: ParameterArgument, languageId: string): string {
+    const { parameter, argument } = parameterArgument;
+    const type = parse.maskAngleBrackets(parameter.type).includes('&')
+        ? parameter.withName('').trim()
+        : parameter.withName('').replace(/^\s*const\b\s*/, '').trim();
+    return languageId === 'cpp' ? `static_cast<${type}>(${argument})` : `(${type})(${argument})`;
+}
+
+/**
+ * A variable that is declared at the start of the inlined statements to hold an argument, so that the argument is
+ * converted and evaluated exactly as it would be when passed to the parameter.
+ */
+interface Temporary {
+    parameterArgument: ParameterArgument;
+    name: string;
+}
+
+/**
+ * Substituting an argument into the statements of the function is not equivalent to passing the argument if it
+ * needs to be converted, is not a variable, is modified (when passed by value), would be evaluated more than once, or
+ * if it refers to a name that the statements declare. Temporaries are named after their parameters, unless that name
+ * is used by an argument.
+ */
+function getTemporaries(maskedBody: string, parameterArguments: ParameterArgument[]): Temporary[] {
+    const parameterNames = new Set(parameterArguments.map(({ parameter }) => parameter.name));
+    const bodyIdentifiers = new Set(findIdentifiers(maskedBody).filter(identifier => !parameterNames.has(identifier)));
+    const argumentIdentifiers = new Set(parameterArguments.flatMap(({ argument }) =>
+            findIdentifiers(parse.maskNonSourceText(argument))));
+
+    const temporaries: Temporary[] = [];
+    parameterArguments.forEach(parameterArgument => {
+        const { parameter, argument, needsConversion } = parameterArgument;
+        const isReference = parse.maskAngleBrackets(parameter.type).includes('&');
+        const isCaptured = findIdentifiers(parse.maskNonSourceText(argument))
+                .some(identifier => bodyIdentifiers.has(identifier));
+        const isDuplicated = countUses(parameter, maskedBody) > 1 && !isSafeToDuplicate(argument);
+        if (isArrayOrFunction(parameter) || !(needsConversion || isCaptured || isDuplicated
+                || (!isReference && (!/^[A-Za-z_][\w\d_]*$/.test(argument) || isModified(parameter, maskedBody))))) {
+            return;
+        }
+
+        let name = parameter.name;
+        for (let i = 1; argumentIdentifiers.has(name) || (name !== parameter.name && (bodyIdentifiers.has(name)
+                || parameterNames.has(name) || temporaries.some(temporary => temporary.name === name))); ++i) {
+            name = parameter.name + i;
+        }
+        temporaries.push({ parameterArgument: parameterArgument, name: name });
+    });
+
+    return temporaries;
+}
+
+function findIdentifiers(maskedText: string): string[] {
+    return [...maskedText.matchAll(/(?<![\w\d_.]|->|::)[A-Za-z_][\w\d_]*\b/g)].map(match => match[0]);
+}
+
+function isModified(parameter: Parameter, maskedBody: string): boolean {
+    return new RegExp(`(\\+\\+|--)\\s*\\b${parameter.name}\\b`
+            + `|\\b${parameter.name}\\s*(\\+\\+|--|([-+*/%&|^]|<<|>>)?=(?!=))`).test(maskedBody);
+}
+
+/**
+ * Substituting an argument for a parameter is only equivalent to passing the argument if the parameter is not
+ * modified (unless it is a reference), and if the argument is not evaluated more times than it would be otherwise.
+ */
+function failureIfCannotSubstitute(
+    maskedBody: string, parameterArguments: ParameterArgument[]
+): string | undefined {
+    for (const { parameter, argument } of parameterArguments) {
+        const isReference = parse.maskAngleBrackets(parameter.type).includes('&');
+        if (!isReference && isModified(parameter, maskedBody)) {
+            return failure.modifiesParameter;
+        }
+
+        if (countUses(parameter, maskedBody) > 1 && !isSafeToDuplicate(argument)) {
+            return failure.argumentEvaluatedTwice;
+        }
+    }
+}
+
+function countUses(parameter: Parameter, maskedBody: string): number {
+    return maskedBody.match(new RegExp(`(?<![\\w\\d_.]|->|::)${parameter.name}\\b`, 'g'))?.length ?? 0;
+}
+
+/**
+ * Replaces occurrences of parameter names in text with the corresponding arguments. maskedText is used to avoid
+ * replacing text in comments and string literals, and must be the same length as text.
+ */
+function substituteParameters(text: string, maskedText: string, substitutions: Map<string, string>): string {
+    let substitutedText = '';
+    let lastIndex = 0;
+    for (const match of maskedText.matchAll(/(?<![\w\d_.]|->|::)[A-Za-z_][\w\d_]*\b/g)) {
+        const argument = substitutions.get(match[0]);
+        if (match.index !== undefined && argument !== undefined) {
+            substitutedText += text.slice(lastIndex, match.index) + parenthesizeIfNeeded(argument);
+            lastIndex = match.index + match[0].length;
+        }
+    }
+    return substitutedText + text.slice(lastIndex);
+}
+
+/**
+ * Identifiers (including member access) and literals can be evaluated more than once without changing the behavior
+ * of the program. Anything else, such as a function call, might have side effects or return a different value.
+ */
+function isSafeToDuplicate(expression: string): boolean {
+    const maskedExpression = parse.maskNonSourceText(expression).trim();
+    return /^([\w_][\w\d_]*((\.|->|::)[\w_][\w\d_]*)*|\d[\w\d_.']*|"\s*"|'\s*')$/.test(maskedExpression);
+}
+
+/**
+ * Identifiers (including member access), literals, function calls, casts, and parenthesized expressions can be
+ * substituted without changing the meaning of the surrounding expression.
+ */
+function needsParentheses(expression: string): boolean {
+    const maskedExpression = parse.maskParentheses(parse.maskNonSourceText(expression)).trim();
+    return !isSafeToDuplicate(expression)
+        && !/^[\w_][\w\d_:]*\s*\(\s*\)$/.test(maskedExpression)
+        && !/^static_cast\s*<\s*>\s*\(\s*\)$/.test(parse.maskAngleBrackets(maskedExpression))
+        && !/^\(\s*\)$/.test(maskedExpression);
+}
+
+function parenthesizeIfNeeded(expression: string): string {
+    return needsParentheses(expression) ? '(' + expression + ')' : expression;
+}
+
+/**
+ * Returns the range of the statement that consists of functionCall, including the semi-colon, or undefined if the
+ * function call is part of a larger expression.
+ */
+function getStatementRange(callerSymbol: CSymbol, functionCall: FunctionCall): vscode.Range | undefined {
+    const document = callerSymbol.document;
+    const startOffset = callerSymbol.startOffset();
+    const bodyStartIndex = document.offsetAt(callerSymbol.bodyStart()) - startOffset;
+    const callStartIndex = document.offsetAt(functionCall.range.start) - startOffset;
+    const callEndIndex = document.offsetAt(functionCall.range.end) - startOffset;
+
+    const textBeforeCall = callerSymbol.parsableText.slice(bodyStartIndex, callStartIndex).trimEnd();
+    const semicolonMatch = callerSymbol.parsableText.slice(callEndIndex).match(/^\s*;/);
+    if (!semicolonMatch || (textBeforeCall.length > 0 && !/[;{}]$/.test(textBeforeCall))) {
+        return;
+    }
+
+    return new vscode.Range(
+            functionCall.range.start, document.positionAt(startOffset + callEndIndex + semicolonMatch[0].length));
+}
+
+/**
+ * Formats the statements of body to replace the function call statement at position. Bodies with more than one
+ * statement, or with temporaries, are enclosed in a block, so that their local variables do not conflict with those
+ * of the caller.
+ */
+function formatStatements(
+    body: FunctionBody,
+    substitutions: Map<string, string>,
+    temporaries: Temporary[],
+    definition: CSymbol,
+    sourceDoc: SourceDocument,
+    position: vscode.Position
+): string {
+    const eol = sourceDoc.endOfLine;
+    const bodyLine = definition.document.lineAt(body.start);
+    const bodyIndentation = bodyLine.text.slice(0, bodyLine.firstNonWhitespaceCharacterIndex);
+    let statements = substituteParameters(body.text, body.maskedText, substitutions)
+            .replace(new RegExp('^' + bodyIndentation, 'gm'), '');
+
+    const declarations = temporaries.map(({ parameterArgument, name }) =>
+            parameterArgument.parameter.withName(name) + ' = ' + parameterArgument.argument + ';');
+    if (declarations.length > 0) {
+        statements = declarations.join(eol) + eol + statements;
+    }
+
+    const maskedStatements = parse.maskBraces(parse.maskParentheses(body.maskedText));
+    const statementCount = maskedStatements.split(';').length + maskedStatements.split('}').length - 2;
+    if (statementCount + declarations.length > 1) {
+        statements = '{' + eol + util.insertBeforeEachLine(statements, util.indentation()) + eol + '}';
+    }
+
+    const callLine = sourceDoc.lineAt(position);
+    const callIndentation = callLine.text.slice(0, callLine.firstNonWhitespaceCharacterIndex);
+    return statements.replace(/\n/g, '\n' + callIndentation);
+}
+
+/**
+ * If the call being inlined is the last reference to the function, asks the user whether to delete the function.
+ */
+async function shouldDeleteFunction(
+    definition: CSymbol, declaration: CSymbol | undefined, functionCall: FunctionCall, sourceDoc: SourceDocument
+): Promise<boolean> {
+    const referenceResults = await vscode.commands.executeCommand<util.LocationType[]>(
+            'vscode.executeReferenceProvider', definition.uri, definition.selectionRange.start);
+    const references = util.makeLocationArray(referenceResults);
+
+    const isRemainingReference = (location: vscode.Location): boolean =>
+            !symbolContains(definition, location)
+            && !(declaration && symbolContains(declaration, location))
+            && !(location.uri.fsPath === sourceDoc.uri.fsPath && functionCall.range.contains(location.range));
+
+    // The call being inlined is a reference, so no results means that the language server couldn't find references.
+    if (references.length === 0 || references.some(isRemainingReference)) {
+        return false;
+    }
+
+    const selectedItem = await showSingleQuickPick([{ label: 'Yes' }, { label: 'No' }], {
+        title: `No references to "${definition.name}" remain. Delete the function?`
+    });
+    return selectedItem?.label === 'Yes';
+}
+
+function symbolContains(symbol: CSymbol, location: vscode.Location): boolean {
+    return symbol.uri.fsPath === location.uri.fsPath && symbol.range.contains(location.range);
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import * as cfg from '../configuration';
 import * as util from '../utility';
 import SourceFile from '../SourceFile';
@@ -7,15 +8,18 @@ import SourceSymbol from '../SourceSymbol';
 import CSymbol from '../CSymbol';
 import { ProposedPosition } from '../ProposedPosition';
 import { getMatchingHeaderSource, logger } from '../extension';
+import { showMultiQuickPick, showSingleQuickPick } from '../QuickPick';
 
 
 export const title = {
     matchingSourceFile: 'Move Definition to matching source file',
+    chosenFile: 'Move Definition to file...',
     outOfClass: 'Move Definition below class body',
     outOfStruct: 'Move Definition below struct body',
     intoClass: 'Move Definition into class',
     intoStruct: 'Move Definition into struct',
-    intoOrOutOfClass: 'Move Definition into/out-of class body'
+    intoOrOutOfClass: 'Move Definition into/out-of class body',
+    allOutOfClass: 'Move Member Definitions out of Class'
 };
 
 export const failure = {
@@ -23,6 +27,11 @@ export const failure = {
     noFunctionDefinition: 'No function definition detected.',
     noFunctionDeclaration: 'No declaration found for this function definition.',
     noMatchingSourceFile: 'No matching source file was found.',
+    noWorkspaceFolder: 'You must have a workspace folder open.',
+    invalidFileExtension: 'The new file must have a C/C++ header or source file extension.',
+    notInWorkspace: 'The new file must be in the workspace folder.',
+    noClassOrStruct: 'No class or struct detected.',
+    noMemberDefinitions: 'This class does not contain any member function definitions.',
     notCpp: 'Detected language is not C++, cannot operate on classes.',
     notMemberFunction: 'Function is not a class member function.',
     isTemplate: 'Function templates must be defined in the file that they are declared.',
@@ -92,6 +101,104 @@ export async function moveDefinitionToMatchingSourceFile(
     return vscode.workspace.applyEdit(workspaceEdit);
 }
 
+export async function moveDefinitionToFile(
+    definition?: CSymbol,
+    declaration?: CSymbol
+): Promise<boolean | undefined> {
+    if (!definition) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        const sourceDoc = new SourceDocument(editor.document);
+        const symbol = await sourceDoc.getSymbol(editor.selection.start);
+        if (!symbol?.isFunctionDefinition()) {
+            logger.alertWarning(failure.noFunctionDefinition);
+            return;
+        }
+
+        definition = symbol;
+    }
+
+    if (!declaration) {
+        const declarationLocation = await definition.findDeclaration();
+        if (declarationLocation) {
+            declaration = await SourceDocument.getSymbol(declarationLocation);
+        }
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(definition.uri)
+            ?? vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        logger.alertWarning(failure.noWorkspaceFolder);
+        return;
+    }
+
+    const target = await promptUserForTargetFile(definition, workspaceFolder);
+    if (!target) {
+        return;
+    }
+
+    const functionSymbol = declaration ?? definition;
+    if (!SourceFile.isHeader(target.uri)) {
+        const visibilityFailure = failureIfRequiresVisibleDefinition(functionSymbol);
+        if (visibilityFailure) {
+            logger.alertInformation(visibilityFailure);
+            return;
+        }
+    }
+
+    /* The declaration that remains after moving the definition needs to be visible in the target file, so the
+     * header that contains it is included if it isn't already. */
+    const declarationHeaderUri = (declaration && SourceFile.isHeader(declaration.uri)) ? declaration.uri
+            : SourceFile.isHeader(definition.uri) ? definition.uri
+            : undefined;
+    const includeStatement = declarationHeaderUri && declarationHeaderUri.fsPath !== target.uri.fsPath
+            ? `#include "${relativeIncludePath(declarationHeaderUri, target.uri)}"`
+            : undefined;
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    if (target.isNew) {
+        // The file is created in the same edit as the rest of the move, so that the move can be undone in one step.
+        const eol = definition.document.endOfLine;
+        const definitionText = await formatDefinitionForNewFile(definition, declaration, target.uri);
+        workspaceEdit.createFile(target.uri, { ignoreIfExists: true });
+        workspaceEdit.insert(target.uri, new vscode.Position(0, 0),
+                (includeStatement ? includeStatement + eol + eol : '') + definitionText + eol);
+    } else {
+        const targetDoc = await SourceDocument.open(target.uri);
+        const declarationDoc = (functionSymbol.uri.fsPath === definition.uri.fsPath)
+                ? definition.document
+                : await SourceDocument.open(functionSymbol.uri);
+        const position = await declarationDoc.findPositionForFunctionDefinition(functionSymbol, targetDoc);
+
+        const definitionText = await definition.getDefinitionForTargetPosition(
+                targetDoc, position, declaration, true);
+        const formattedDefinition = position.formatTextToInsert(definitionText, targetDoc);
+
+        if (includeStatement && declarationHeaderUri && !isIncluded(targetDoc, declarationHeaderUri)) {
+            const includePosition = targetDoc.findPositionForNewInclude().project;
+            workspaceEdit.insert(targetDoc.uri, includePosition, includeStatement + targetDoc.endOfLine);
+        }
+        workspaceEdit.insert(targetDoc.uri, position, formattedDefinition);
+    }
+
+    if (!declaration && (SourceFile.isHeader(definition.uri) || definition.parent?.isClassType())) {
+        const newDeclaration = definition.newFunctionDeclaration();
+        const replaceRange = cfg.alwaysMoveComments(definition.uri)
+                ? definition.rangeWithComments
+                : definition.fullRange;
+        workspaceEdit.replace(definition.uri, replaceRange, newDeclaration);
+    } else {
+        const deletionRange = getDeletionRange(definition);
+        workspaceEdit.delete(definition.uri, deletionRange);
+    }
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
 export async function moveDefinitionIntoOrOutOfClass(
     definition?: CSymbol,
     classDoc?: SourceDocument,
@@ -198,6 +305,270 @@ export async function moveDefinitionIntoOrOutOfClass(
     logger.alertWarning(failure.noFunctionDeclaration);
 }
 
+interface FileItem extends vscode.QuickPickItem {
+    uri: vscode.Uri;
+    isNew?: boolean;
+}
+
+/**
+ * Prompts the user to select a C/C++ file in the workspace. Entering the path of a file that does not exist (relative
+ * to the workspace folder) offers to create it.
+ */
+async function promptUserForTargetFile(
+    definition: CSymbol, workspaceFolder: vscode.WorkspaceFolder
+): Promise<FileItem | undefined> {
+    const extensions = [...cfg.headerExtensions(workspaceFolder), ...cfg.sourceExtensions(workspaceFolder)];
+    const filePattern = new vscode.RelativePattern(workspaceFolder, `**/*.{${extensions.join(',')}}`);
+    const uris = await vscode.workspace.findFiles(filePattern, cfg.searchExcludeGlobPattern(workspaceFolder));
+
+    const currentDirectory = path.dirname(definition.uri.fsPath);
+    const fileItems: FileItem[] = uris.filter(uri => uri.fsPath !== definition.uri.fsPath).map(uri => {
+        return {
+            label: path.basename(uri.fsPath),
+            description: vscode.workspace.asRelativePath(path.dirname(uri.fsPath), false),
+            uri: uri
+        };
+    }).sort((a, b) => {
+        const diff_a = util.compareDirectoryPaths(path.dirname(a.uri.fsPath), currentDirectory);
+        const diff_b = util.compareDirectoryPaths(path.dirname(b.uri.fsPath), currentDirectory);
+        return diff_a !== diff_b ? diff_a - diff_b : a.label.localeCompare(b.label);
+    });
+
+    const existingPaths = new Set(uris.map(uri => uri.fsPath));
+
+    return showSingleQuickPick(fileItems, {
+        title: 'Select or enter the path of the file to move the definition to',
+        matchOnDescription: true,
+        onDidChangeValue: (value, quickPick) => {
+            const relativePath = value.trim();
+            const newFileUri = vscode.Uri.joinPath(workspaceFolder.uri, relativePath);
+            if (!relativePath || existingPaths.has(newFileUri.fsPath)) {
+                quickPick.items = fileItems;
+                return;
+            }
+
+            const newFileItem: FileItem = {
+                label: `$(new-file) ${relativePath}`,
+                description: 'Create new file',
+                alwaysShow: true,
+                uri: newFileUri,
+                isNew: true
+            };
+            quickPick.items = [newFileItem, ...fileItems];
+        },
+        onWillAccept: quickPick => {
+            const selectedItem = quickPick.selectedItems[0];
+            if (selectedItem?.isNew && !extensions.includes(util.fileExtension(selectedItem.uri.fsPath))) {
+                logger.alertWarning(failure.invalidFileExtension);
+                return false;
+            } else if (selectedItem?.isNew && !util.containedInWorkspace(selectedItem.uri)) {
+                logger.alertWarning(failure.notInWorkspace);
+                return false;
+            }
+            return true;
+        }
+    });
+}
+
+function failureIfRequiresVisibleDefinition(functionSymbol: CSymbol): string | undefined {
+    if (functionSymbol.isInline()) {
+        return failure.isInline;
+    } else if (functionSymbol.isConstexpr()) {
+        return failure.isConstexpr;
+    } else if (functionSymbol.isConsteval()) {
+        return failure.isConsteval;
+    } else if (functionSymbol.isUnspecializedTemplate()) {
+        return failure.isTemplate;
+    } else if (functionSymbol.hasUnspecializedTemplate()) {
+        return failure.isClassTemplate;
+    }
+}
+
+/**
+ * A new file only contains the include of the declaration's header, so the definition is qualified with all of its
+ * scopes. Since the file cannot be opened before it is created, the definition is formatted for the start of the
+ * document that it is moved out of, where none of its scopes are open.
+ */
+async function formatDefinitionForNewFile(
+    definition: CSymbol, declaration: CSymbol | undefined, targetUri: vscode.Uri
+): Promise<string> {
+    return definition.getDefinitionForTargetPosition(
+            definition.document, new vscode.Position(0, 0), declaration, SourceFile.isHeader(targetUri));
+}
+
+export function relativeIncludePath(headerUri: vscode.Uri, targetUri: vscode.Uri): string {
+    return path.relative(path.dirname(targetUri.fsPath), headerUri.fsPath).split(path.sep).join('/');
+}
+
+/**
+ * Include paths are resolved relative to the directory of targetDoc. Headers that are found through the include paths
+ * of the project are not recognized, in which case the header gets included again (which its header guard permits).
+ */
+function isIncluded(targetDoc: SourceDocument, headerUri: vscode.Uri): boolean {
+    const targetDirectory = path.dirname(targetDoc.uri.fsPath);
+    return targetDoc.includedFiles.some(includedFile =>
+            path.resolve(targetDirectory, includedFile) === path.resolve(headerUri.fsPath));
+}
+
+/**
+ * Moves the definitions of member functions that are defined in parentClass's body either below the class body or
+ * into the matching source file, leaving declarations in their place. Functions that must be defined in the header
+ * are moved below the class body, even if the matching source file is chosen.
+ */
+export async function moveDefinitionsOutOfClass(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        if (classDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    const memberDefinitions: CSymbol[] = [];
+    for (const child of parentClass.children) {
+        const memberFunction = new CSymbol(child, classDoc);
+        if (memberFunction.isFunctionDefinition()) {
+            memberDefinitions.push(memberFunction);
+        }
+    }
+
+    if (memberDefinitions.length === 0) {
+        logger.alertInformation(failure.noMemberDefinitions);
+        return;
+    }
+
+    const p_matchingUri = getMatchingHeaderSource(classDoc.uri);
+
+    const selectedDefinitions = await promptUserForMemberDefinitions(parentClass, memberDefinitions);
+    if (!selectedDefinitions || selectedDefinitions.length === 0) {
+        return;
+    }
+
+    const targetUri = await promptUserForClassDefinitionsTarget(parentClass, classDoc, await p_matchingUri);
+    if (!targetUri) {
+        return;
+    }
+
+    const targetDoc = (targetUri.fsPath === classDoc.uri.fsPath) ? classDoc : await SourceDocument.open(targetUri);
+
+    const definitionsForTarget: CSymbol[] = [];
+    const definitionsForClassDoc: CSymbol[] = [];
+    selectedDefinitions.forEach(definition => {
+        if (targetDoc !== classDoc && failureIfRequiresVisibleDefinition(definition)) {
+            definitionsForClassDoc.push(definition);
+        } else {
+            definitionsForTarget.push(definition);
+        }
+    });
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    await addDefinitionsToWorkspaceEdit(definitionsForTarget, targetDoc, workspaceEdit);
+    await addDefinitionsToWorkspaceEdit(definitionsForClassDoc, classDoc, workspaceEdit);
+
+    for (const definition of selectedDefinitions) {
+        const replaceRange = cfg.alwaysMoveComments(definition.uri)
+                ? definition.rangeWithComments
+                : definition.fullRange;
+        workspaceEdit.replace(definition.uri, replaceRange, definition.newFunctionDeclaration());
+    }
+
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * The definitions are inserted together, in the order that they appear in the class, at the position found for the
+ * first one.
+ */
+async function addDefinitionsToWorkspaceEdit(
+    definitions: CSymbol[], targetDoc: SourceDocument, workspaceEdit: vscode.WorkspaceEdit
+): Promise<void> {
+    if (definitions.length === 0) {
+        return;
+    }
+
+    const position = await getNewPosition(targetDoc, definitions[0]);
+
+    const definitionTexts: string[] = [];
+    for (const definition of definitions) {
+        definitionTexts.push(await definition.getDefinitionForTargetPosition(targetDoc, position, undefined, true));
+    }
+
+    const eol = targetDoc.endOfLine;
+    workspaceEdit.insert(
+            targetDoc.uri, position, position.formatTextToInsert(definitionTexts.join(eol + eol), targetDoc));
+}
+
+interface MemberDefinitionItem extends vscode.QuickPickItem {
+    definition: CSymbol;
+}
+
+async function promptUserForMemberDefinitions(
+    parentClass: CSymbol, memberDefinitions: CSymbol[]
+): Promise<CSymbol[] | undefined> {
+    const definitionItems: MemberDefinitionItem[] = memberDefinitions.map(definition => {
+        return {
+            label: '$(symbol-method) ' + definition.name,
+            description: util.formatSignature(definition),
+            definition: definition,
+            picked: true
+        };
+    });
+
+    const selectedItems = await showMultiQuickPick(definitionItems, {
+        matchOnDescription: true,
+        title: `Select the member functions to move out of "${parentClass.name}"`
+    });
+
+    return selectedItems?.map(item => item.definition);
+}
+
+interface DefinitionTargetItem extends vscode.QuickPickItem {
+    uri: vscode.Uri;
+}
+
+async function promptUserForClassDefinitionsTarget(
+    parentClass: CSymbol, classDoc: SourceDocument, matchingUri?: vscode.Uri
+): Promise<vscode.Uri | undefined> {
+    const belowClassItem: DefinitionTargetItem = {
+        label: parentClass.isStruct() ? 'Below struct body' : 'Below class body',
+        uri: classDoc.uri
+    };
+
+    if (!matchingUri || !classDoc.isHeader() || parentClass.hasUnspecializedTemplate()) {
+        return belowClassItem.uri;
+    }
+
+    const matchingSourceFileItem: DefinitionTargetItem = {
+        label: 'Matching source file',
+        description: util.formatPathToDisplay(matchingUri),
+        uri: matchingUri
+    };
+
+    const selectedItem = await showSingleQuickPick([belowClassItem, matchingSourceFileItem], {
+        title: 'Select where to move the definitions to'
+    });
+
+    return selectedItem?.uri;
+}
+
 async function getNewPosition(targetDoc: SourceDocument, declaration?: SourceSymbol): Promise<ProposedPosition> {
     if (!declaration) {
         return targetDoc.findPositionForNewSymbol();
@@ -207,7 +578,7 @@ async function getNewPosition(targetDoc: SourceDocument, declaration?: SourceSym
     return declarationDoc.findSmartPositionForFunctionDefinition(declaration, targetDoc);
 }
 
-function getDeletionRange(definition: CSymbol): vscode.Range {
+export function getDeletionRange(definition: CSymbol): vscode.Range {
     let deletionRange = definition.rangeWithComments;
     if (deletionRange.start.line > 0
             && definition.document.lineAt(deletionRange.start.line - 1).isEmptyOrWhitespace) {
@@ -0,0 +1,346 @@
+import * as vscode from 'vscode';
+import * as cfg from '../configuration';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import SubSymbol from '../SubSymbol';
+import FunctionSignature from '../FunctionSignature';
+import { ProposedPosition } from '../ProposedPosition';
+import { generateDefinitionsWorkspaceEdit, revealNewFunction } from './addDefinition';
+import { getMatchingHeaderSource, logger } from '../extension';
+import { showMultiQuickPick, showSingleQuickPick } from '../QuickPick';
+
+
+export const title = {
+    overrideVirtualFunctions: 'Override Virtual Functions'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot create a member function.',
+    noClassOrStruct: 'No class or struct detected.',
+    noBaseClasses: 'This class does not derive from any base classes.',
+    noVirtualFunctions: 'No virtual functions were found in the base classes that have not already been overridden.',
+    positionNotFound: 'Could not find a position for a new public member function.'
+};
+
+export async function overrideVirtualFunctions(
+    parentClass?: CSymbol,
+    classDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!parentClass || !classDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        classDoc = new SourceDocument(editor.document);
+        if (classDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await classDoc.getSymbol(editor.selection.start);
+        parentClass = symbol?.isClassType() && !symbol.isAnonymous() ? symbol : symbol?.firstNamedParent();
+
+        if (!parentClass?.isClassType()) {
+            logger.alertWarning(failure.noClassOrStruct);
+            return;
+        }
+    }
+
+    if (parentClass.baseClasses().length === 0) {
+        logger.alertInformation(failure.noBaseClasses);
+        return;
+    }
+
+    const virtualFunctions = await findOverridableFunctions(parentClass);
+    if (virtualFunctions.length === 0) {
+        logger.alertInformation(failure.noVirtualFunctions);
+        return;
+    }
+
+    const selectedFunctions = await promptUserForVirtualFunctions(parentClass, virtualFunctions);
+    if (!selectedFunctions || selectedFunctions.length === 0) {
+        return;
+    }
+
+    const declarationPos = parentClass.findPositionForNewMemberFunction(util.AccessLevel.public);
+    if (!declarationPos) {
+        logger.alertError(failure.positionNotFound);
+        return;
+    }
+
+    const definitionTarget = await promptUserForDefinitionTarget(parentClass, classDoc);
+    if (!definitionTarget) {
+        return;
+    }
+
+    const eol = classDoc.endOfLine;
+    let declarations = selectedFunctions.map(overridable => formatOverrideDeclaration(overridable)).join(eol);
+    if (!parentClass.positionHasAccess(declarationPos, util.AccessLevel.public)) {
+        declarations = util.accessSpecifierString(util.AccessLevel.public) + eol + declarations;
+    }
+
+    const targetDoc = (definitionTarget.location === DefinitionTarget.SourceFile && definitionTarget.uri)
+            ? await SourceDocument.open(definitionTarget.uri)
+            : classDoc;
+    const workspaceEdit = (definitionTarget.location !== DefinitionTarget.None)
+            ? await generateOverrideDefinitionsWorkspaceEdit(selectedFunctions, parentClass, declarationPos, targetDoc)
+            : new vscode.WorkspaceEdit();
+    if (!workspaceEdit) {
+        return;
+    }
+    workspaceEdit.insert(classDoc.uri, declarationPos, declarationPos.formatTextToInsert(declarations, classDoc));
+
+    const success = await vscode.workspace.applyEdit(workspaceEdit);
+    if (success && definitionTarget.location !== DefinitionTarget.None && cfg.revealNewDefinition(classDoc)) {
+        await revealNewFunction(workspaceEdit, targetDoc);
+    }
+
+    return success;
+}
+
+/**
+ * Returns a key that identifies the function signature for the purpose of overriding. Functions with the same key
+ * override one another.
+ */
+export function overrideKey(memberFunction: CSymbol | FunctionSignature): string {
+    const signature = memberFunction instanceof FunctionSignature
+            ? memberFunction
+            : new FunctionSignature(memberFunction);
+    return signature.name + '(' + signature.parameters.map(parameter => parameter.normalizedType).join(',') + ')'
+            + (signature.isConst ? ' const' : '') + (signature.isVolatile ? ' volatile' : '') + signature.refQualifier;
+}
+
+function isFinal(memberFunction: CSymbol): boolean {
+    const declaration = memberFunction.document.getText(
+            new vscode.Range(memberFunction.selectionRange.end, memberFunction.declarationEnd()));
+    return /\bfinal\b/.test(parse.maskParentheses(parse.maskNonSourceText(declaration)));
+}
+
+/**
+ * A virtual function of a base class, along with the template arguments that the derived class passes for the
+ * template parameters of that base class (if it is a template).
+ */
+interface OverridableFunction {
+    virtualFunction: CSymbol;
+    templateArguments: Map<string, string>;
+}
+
+/**
+ * Recursively searches the base classes of parentClass for virtual functions that have not already been overridden.
+ * Functions from more derived base classes take precedence over the functions they override. Functions of base class
+ * templates whose template arguments cannot be determined are omitted, since their overrides could not be written.
+ */
+async function findOverridableFunctions(parentClass: CSymbol): Promise<OverridableFunction[]> {
+    const overriddenKeys = new Set<string>();
+    parentClass.children.forEach(child => {
+        const memberFunction = new CSymbol(child, parentClass.document);
+        if (memberFunction.isFunction()) {
+            overriddenKeys.add(overrideKey(memberFunction));
+        }
+    });
+
+    const visitedClasses = new Set<string>();
+    const overridableFunctions: OverridableFunction[] = [];
+
+    async function searchBaseClasses(derivedClass: CSymbol, derivedArguments?: Map<string, string>): Promise<void> {
+        for (const baseSpecifier of derivedClass.baseClasses()) {
+            const baseClass = await derivedClass.resolveBaseClass(baseSpecifier);
+            if (!baseClass) {
+                continue;
+            }
+
+            const classKey = baseClass.uri.toString() + baseClass.selectionRange.start.line;
+            if (visitedClasses.has(classKey)) {
+                continue;
+            }
+            visitedClasses.add(classKey);
+
+            const templateArguments = mapTemplateArguments(baseClass, baseSpecifier, derivedArguments);
+
+            baseClass.children.forEach(child => {
+                const memberFunction = new CSymbol(child, baseClass.document);
+                if (!memberFunction.isFunction() || !memberFunction.isVirtual() || memberFunction.isDestructor()) {
+                    return;
+                }
+
+                const key = substituteTemplateArguments(overrideKey(memberFunction), templateArguments);
+                if (!overriddenKeys.has(key)) {
+                    overriddenKeys.add(key);
+                    if (templateArguments && !isFinal(memberFunction)) {
+                        overridableFunctions.push({
+                            virtualFunction: memberFunction,
+                            templateArguments: templateArguments
+                        });
+                    }
+                }
+            });
+
+            await searchBaseClasses(baseClass, templateArguments);
+        }
+    }
+
+    await searchBaseClasses(parentClass, new Map());
+
+    return overridableFunctions;
+}
+
+/**
+ * Maps the template parameters of baseClass to the template arguments in baseSpecifier, after substituting
+ * derivedArguments into them. Returns undefined if the template arguments cannot be determined, such as when
+ * default template arguments or parameter packs are involved.
+ */
+function mapTemplateArguments(
+    baseClass: CSymbol, baseSpecifier: SubSymbol, derivedArguments?: Map<string, string>
+): Map<string, string> | undefined {
+    if (!baseClass.isUnspecializedTemplate()) {
+        return new Map();
+    } else if (!derivedArguments) {
+        return;
+    }
+
+    const parameters = baseClass.templateParameters().slice(1, -1).split(',').map(parameter => parameter.trim());
+    const specifierText = baseSpecifier.text();
+    const argumentsStart = specifierText.indexOf('<');
+    const argumentsEnd = specifierText.lastIndexOf('>');
+    if (argumentsStart === -1 || argumentsEnd < argumentsStart
+            || parameters.some(parameter => parameter.endsWith('...'))) {
+        return;
+    }
+
+    const argumentText = specifierText.slice(argumentsStart + 1, argumentsEnd);
+    const maskedArgumentText = parse.maskParentheses(parse.maskAngleBrackets(parse.maskNonSourceText(argumentText)));
+    const templateArguments: string[] = [];
+    let argumentStart = 0;
+    for (const match of maskedArgumentText.matchAll(/,/g)) {
+        if (match.index !== undefined) {
+            templateArguments.push(argumentText.slice(argumentStart, match.index).trim());
+            argumentStart = match.index + 1;
+        }
+    }
+    templateArguments.push(argumentText.slice(argumentStart).trim());
+
+    if (templateArguments.length !== parameters.length) {
+        return;
+    }
+
+    const argumentMap = new Map<string, string>();
+    parameters.forEach((parameter, index) => {
+        argumentMap.set(parameter, substituteTemplateArguments(templateArguments[index], derivedArguments));
+    });
+
+    return argumentMap;
+}
+
+/**
+ * Replaces the template parameter names in text with their corresponding template arguments.
+ */
+function substituteTemplateArguments(text: string, templateArguments?: Map<string, string>): string {
+    if (!templateArguments || templateArguments.size === 0) {
+        return text;
+    }
+
+    const re_templateParameters = new RegExp(
+            '(?<!::\\s*|\\.\\s*|->\\s*)\\b(' + [...templateArguments.keys()].join('|') + ')\\b', 'g');
+    return text.replace(re_templateParameters, parameter => templateArguments.get(parameter) ?? parameter);
+}
+
+interface VirtualFunctionItem extends vscode.QuickPickItem {
+    overridable: OverridableFunction;
+}
+
+async function promptUserForVirtualFunctions(
+    parentClass: CSymbol, overridableFunctions: OverridableFunction[]
+): Promise<OverridableFunction[] | undefined> {
+    const functionItems: VirtualFunctionItem[] = overridableFunctions.map(overridable => {
+        const virtualFunction = overridable.virtualFunction;
+        const isPureVirtual = virtualFunction.isPureVirtual();
+        return {
+            label: '$(symbol-method) ' + virtualFunction.name,
+            description: util.formatSignature(virtualFunction),
+            detail: (isPureVirtual ? 'Pure virtual in ' : 'Virtual in ') + virtualFunction.parent?.name,
+            overridable: overridable,
+            picked: isPureVirtual
+        };
+    });
+
+    const selectedItems = await showMultiQuickPick(functionItems, {
+        matchOnDescription: true,
+        ignoreFocusOut: true,
+        title: `Select the virtual functions to override in "${parentClass.name}"`
+    });
+
+    return selectedItems?.map(item => item.overridable);
+}
+
+enum DefinitionTarget {
+    None,
+    CurrentFile,
+    SourceFile
+}
+
+interface DefinitionTargetItem extends vscode.QuickPickItem {
+    location: DefinitionTarget;
+    uri?: vscode.Uri;
+}
+
+async function promptUserForDefinitionTarget(
+    parentClass: CSymbol, classDoc: SourceDocument
+): Promise<DefinitionTargetItem | undefined> {
+    const targetItems: DefinitionTargetItem[] = [
+        { label: 'Declarations only', location: DefinitionTarget.None }
+    ];
+
+    const matchingUri = await getMatchingHeaderSource(classDoc.uri);
+    if (classDoc.isHeader() && matchingUri && !parentClass.hasUnspecializedTemplate()) {
+        targetItems.push({
+            label: 'Add definitions to matching source file',
+            description: util.formatPathToDisplay(matchingUri),
+            location: DefinitionTarget.SourceFile,
+            uri: matchingUri
+        });
+    }
+    targetItems.push({ label: 'Add definitions to this file', location: DefinitionTarget.CurrentFile });
+
+    return showSingleQuickPick(targetItems, { title: 'Select where to place the definitions of the overrides' });
+}
+
+function formatOverrideDeclaration(overridable: OverridableFunction): string {
+    const virtualFunction = overridable.virtualFunction;
+    const declarationRange = new vscode.Range(virtualFunction.declarationStart(), virtualFunction.declarationEnd());
+    const declaration = parse.removeComments(virtualFunction.document.getText(declarationRange))
+            .replace(parse.getIndentationRegExp(virtualFunction), '')
+            .replace(/\bvirtual\b\s*/, '')
+            .replace(/\s*=\s*0\s*$/, '')
+            .replace(/\s*\b(override|final)\b/g, '');
+    return substituteTemplateArguments(declaration, overridable.templateArguments) + ' override;';
+}
+
+/**
+ * Generates the definitions of the overrides as new member functions of parentClass, so that they can be added in the
+ * same edit as their declarations.
+ */
+async function generateOverrideDefinitionsWorkspaceEdit(
+    overridableFunctions: OverridableFunction[],
+    parentClass: CSymbol,
+    declarationPos: ProposedPosition,
+    targetDoc: SourceDocument
+): Promise<vscode.WorkspaceEdit | undefined> {
+    const templateArguments = new Map<CSymbol, Map<string, string>>();
+    overridableFunctions.forEach(overridable => {
+        templateArguments.set(overridable.virtualFunction, overridable.templateArguments);
+    });
+
+    return generateDefinitionsWorkspaceEdit(
+            overridableFunctions.map(overridable => overridable.virtualFunction), parentClass.document, targetDoc, {
+                parentClass: parentClass,
+                position: await parentClass.document.findSmartPositionForFunctionDefinition(declarationPos, targetDoc),
+                formatText: (virtualFunction, text) =>
+                        substituteTemplateArguments(text, templateArguments.get(virtualFunction))
+            });
+}
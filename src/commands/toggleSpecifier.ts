@@ -0,0 +1,341 @@
+import * as vscode from 'vscode';
+import * as util from '../utility';
+import * as parse from '../parsing';
+import SourceDocument from '../SourceDocument';
+import CSymbol from '../CSymbol';
+import FunctionSignature from '../FunctionSignature';
+import { SignatureSpecifiers, updateSpecifiers } from './updateSignature';
+import { logger } from '../extension';
+import { showSingleQuickPick } from '../QuickPick';
+
+
+export const title = {
+    toggleSpecifier: 'Add or Remove a Function Specifier'
+};
+
+export const failure = {
+    noActiveTextEditor: 'No active text editor detected.',
+    notCpp: 'Detected language is not C++, cannot add or remove function specifiers.',
+    noFunction: 'No function declaration or definition detected.',
+    noSpecifiers: 'No specifiers can be added to or removed from this function.',
+    cannotAddSpecifier: 'This specifier cannot be added to this function.'
+};
+
+export type FunctionSpecifier = 'const' | 'noexcept' | 'static' | 'virtual' | 'override' | 'nodiscard' | 'explicit';
+
+/**
+ * An available change to the specifiers of a function. If the specifier is present, the change removes it.
+ */
+export interface SpecifierToggle {
+    specifier: FunctionSpecifier;
+    isPresent: boolean;
+    title: string;
+}
+
+/**
+ * The declaration of a function, and its definition if that is separate from the declaration.
+ */
+interface LinkedFunctions {
+    declaration: CSymbol;
+    definition?: CSymbol;
+    isMember: boolean;
+}
+
+export async function toggleSpecifier(
+    specifier?: FunctionSpecifier,
+    functionSymbol?: CSymbol,
+    sourceDoc?: SourceDocument
+): Promise<boolean | undefined> {
+    if (!functionSymbol || !sourceDoc) {
+        // Command was called from the command-palette
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            logger.alertError(failure.noActiveTextEditor);
+            return;
+        }
+
+        sourceDoc = new SourceDocument(editor.document);
+        if (sourceDoc.languageId !== 'cpp') {
+            logger.alertWarning(failure.notCpp);
+            return;
+        }
+
+        const symbol = await sourceDoc.getSymbol(editor.selection.start);
+        if (!symbol?.isFunction()) {
+            logger.alertWarning(failure.noFunction);
+            return;
+        }
+        functionSymbol = symbol;
+    }
+
+    const functions = await findLinkedFunctions(functionSymbol);
+    const toggles = getSpecifierToggles(functions);
+
+    let toggle: SpecifierToggle | undefined;
+    if (specifier) {
+        toggle = toggles.find(toggle => toggle.specifier === specifier);
+        if (!toggle) {
+            logger.alertWarning(failure.cannotAddSpecifier);
+            return;
+        }
+    } else if (toggles.length === 0) {
+        logger.alertWarning(failure.noSpecifiers);
+        return;
+    } else {
+        toggle = await promptUserForToggle(toggles, functionSymbol);
+        if (!toggle) {
+            return;
+        }
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    addToggleToWorkspaceEdit(toggle, functions, workspaceEdit);
+    return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Returns the specifiers that can be added to or removed from functionSymbol, taking its declaration into account if
+ * functionSymbol is an out-of-class definition.
+ */
+export async function findSpecifierToggles(functionSymbol: CSymbol): Promise<SpecifierToggle[]> {
+    return getSpecifierToggles(await findLinkedFunctions(functionSymbol));
+}
+
+async function findLinkedFunctions(functionSymbol: CSymbol): Promise<LinkedFunctions> {
+    const linkedFunction = await util.findLinkedFunction(functionSymbol);
+    const declaration = (functionSymbol.isFunctionDefinition() && linkedFunction) ? linkedFunction : functionSymbol;
+    const definition = declaration === functionSymbol ? linkedFunction : functionSymbol;
+
+    return {
+        declaration: declaration,
+        definition: definition,
+        isMember: declaration.parent?.isClassType() ?? false
+    };
+}
+
+const specifierOrder: FunctionSpecifier[] = [
+    'const', 'noexcept', 'static', 'virtual', 'override', 'nodiscard', 'explicit'
+];
+
+function getSpecifierToggles(functions: LinkedFunctions): SpecifierToggle[] {
+    const { declaration, isMember } = functions;
+    const signature = new FunctionSignature(declaration);
+    const isConstructorOrDestructor = declaration.isConstructor() || declaration.isDestructor();
+    const isStatic = declaration.isStatic();
+    const isVirtual = declaration.isVirtual();
+
+    const present = {
+        const: signature.isConst,
+        noexcept: signature.normalizedNoexcept.length !== 0,
+        static: isMember && isStatic,
+        virtual: /\bvirtual\b/.test(declaration.parsableLeadingText),
+        override: /\boverride\b/.test(maskedTrailingText(declaration, signature)),
+        nodiscard: findNodiscard(declaration) !== undefined,
+        explicit: /\bexplicit\b/.test(declaration.parsableLeadingText)
+    };
+
+    const canAdd = {
+        const: isMember && !isStatic && !isConstructorOrDestructor,
+        noexcept: true,
+        static: isMember && !isVirtual && !isConstructorOrDestructor && /^(?!operator\b)/.test(declaration.name)
+            && !signature.isConst && !signature.isVolatile && signature.refQualifier.length === 0
+            && !usesNonStaticMembers(functions),
+        virtual: isMember && !isStatic && !declaration.isConstructor() && !declaration.hasUnspecializedTemplate(),
+        override: isMember && !isStatic && !isConstructorOrDestructor && !declaration.hasUnspecializedTemplate(),
+        nodiscard: !isConstructorOrDestructor && signature.normalizedReturnType !== 'void',
+        explicit: isMember && (declaration.isConstructor() || isConversionOperator(declaration))
+    };
+
+    return specifierOrder.filter(specifier => present[specifier] || canAdd[specifier]).map(specifier => {
+        const specifierText = specifier === 'nodiscard' ? '[[nodiscard]]' : specifier;
+        return {
+            specifier: specifier,
+            isPresent: present[specifier],
+            title: present[specifier] ? `Remove "${specifierText}"` : `Add "${specifierText}"`
+        };
+    });
+}
+
+/**
+ * Returns true if the body of the function uses this, either explicitly or by naming a non-static member. Names are
+ * not resolved, so a local variable that shadows a member also counts as a use of the member.
+ */
+function usesNonStaticMembers(functions: LinkedFunctions): boolean {
+    const { declaration, definition } = functions;
+    const bodySymbol = definition ?? (declaration.isFunctionDefinition() ? declaration : undefined);
+    const parentClass = declaration.parent;
+    if (!bodySymbol || !parentClass) {
+        return false;
+    }
+
+    const nonStaticMembers = new Set(parentClass.children.map(child => new CSymbol(child, parentClass.document))
+            .filter(member => (member.isMemberVariable()
+                    || (member.isFunction() && !member.isConstructor() && !member.isDestructor()))
+                && !member.isStatic())
+            .map(member => member.name));
+
+    const bodyRange = new vscode.Range(bodySymbol.bodyStart(), bodySymbol.bodyEnd());
+    const maskedBody = parse.maskNonSourceText(bodySymbol.document.getText(bodyRange));
+    return [...maskedBody.matchAll(/(?<![\w\d_.]|->|::)[A-Za-z_][\w\d_]*\b/g)].some(match =>
+            match[0] === 'this' || nonStaticMembers.has(match[0]));
+}
+
+function isConversionOperator(functionSymbol: CSymbol): boolean {
+    return /^operator\s+(?!new\b|delete\b)[\w_]/.test(functionSymbol.name);
+}
+
+async function promptUserForToggle(
+    toggles: SpecifierToggle[], functionSymbol: CSymbol
+): Promise<SpecifierToggle | undefined> {
+    const toggleItems = toggles.map(toggle => ({ label: toggle.title, toggle: toggle }));
+
+    const selectedItem = await showSingleQuickPick(toggleItems, {
+        title: `Add or remove a specifier of "${functionSymbol.name}"`
+    });
+
+    return selectedItem?.toggle;
+}
+
+/**
+ * static, virtual, override, and explicit are only allowed on the declaration of a member function in its class,
+ * and [[nodiscard]] is conventionally only written on the declaration, so only const and noexcept are added to the
+ * definition as well.
+ */
+function addToggleToWorkspaceEdit(
+    toggle: SpecifierToggle,
+    functions: LinkedFunctions,
+    workspaceEdit: vscode.WorkspaceEdit
+): void {
+    const { declaration, definition } = functions;
+
+    switch (toggle.specifier) {
+    case 'const':
+    case 'noexcept':
+        [declaration, definition].forEach(functionSymbol => {
+            if (functionSymbol) {
+                const signature = new FunctionSignature(functionSymbol);
+                const specifiers = toggledSpecifiers(signature, toggle);
+                updateSpecifiers(specifiers, signature, functionSymbol.document, workspaceEdit);
+            }
+        });
+        break;
+    case 'static':
+    case 'virtual':
+    case 'explicit':
+        if (toggle.isPresent) {
+            removeLeadingSpecifier(declaration, new RegExp(`\\b${toggle.specifier}\\b[ \\t]*`), workspaceEdit);
+        } else {
+            workspaceEdit.insert(declaration.uri, getLeadingSpecifierPosition(declaration), toggle.specifier + ' ');
+        }
+        break;
+    case 'override':
+        if (toggle.isPresent) {
+            removeTrailingOverride(declaration, workspaceEdit);
+        } else {
+            workspaceEdit.insert(declaration.uri, getOverridePosition(declaration), ' override');
+        }
+        break;
+    case 'nodiscard':
+        if (toggle.isPresent) {
+            [declaration, definition].forEach(functionSymbol => {
+                const nodiscardRange = functionSymbol ? findNodiscard(functionSymbol) : undefined;
+                if (functionSymbol && nodiscardRange) {
+                    workspaceEdit.delete(functionSymbol.uri, nodiscardRange);
+                }
+            });
+        } else {
+            workspaceEdit.insert(declaration.uri, declaration.declarationStart(), '[[nodiscard]] ');
+        }
+        break;
+    }
+}
+
+function toggledSpecifiers(signature: FunctionSignature, toggle: SpecifierToggle): SignatureSpecifiers {
+    const isNoexceptToggle = toggle.specifier === 'noexcept';
+    const noexcept = isNoexceptToggle ? (toggle.isPresent ? '' : ' noexcept') : signature.noexcept;
+
+    return {
+        returnType: signature.returnType,
+        normalizedReturnType: signature.normalizedReturnType,
+        isConstexpr: signature.isConstexpr,
+        isConsteval: signature.isConsteval,
+        isConst: toggle.specifier === 'const' ? !toggle.isPresent : signature.isConst,
+        isVolatile: signature.isVolatile,
+        refQualifier: signature.refQualifier,
+        noexcept: noexcept,
+        normalizedNoexcept: isNoexceptToggle ? parse.normalizeSourceText(noexcept) : signature.normalizedNoexcept
+    };
+}
+
+/**
+ * Specifiers are inserted after the attributes at the start of the declaration, since attributes must come first.
+ */
+function getLeadingSpecifierPosition(functionSymbol: CSymbol): vscode.Position {
+    const sourceDoc = functionSymbol.document;
+    const declarationStart = functionSymbol.declarationStart();
+    const leadingText = parse.maskComments(
+            sourceDoc.getText(new vscode.Range(declarationStart, functionSymbol.selectionRange.start)), false);
+    const attributesMatch = leadingText.match(/^(\s*\[\[.*?\]\])*\s*/s);
+
+    return sourceDoc.positionAt(sourceDoc.offsetAt(declarationStart) + (attributesMatch?.[0].length ?? 0));
+}
+
+function removeLeadingSpecifier(
+    functionSymbol: CSymbol, re_specifier: RegExp, workspaceEdit: vscode.WorkspaceEdit
+): void {
+    const match = functionSymbol.parsableLeadingText.match(re_specifier);
+    if (match?.index !== undefined) {
+        const startOffset = functionSymbol.startOffset() + match.index;
+        const range = functionSymbol.document.rangeAt(startOffset, startOffset + match[0].length);
+        workspaceEdit.delete(functionSymbol.uri, range);
+    }
+}
+
+/**
+ * Returns the text from the end of the parameter list to the end of the declaration, with non-source text and
+ * parentheses masked.
+ */
+function maskedTrailingText(functionSymbol: CSymbol, signature: FunctionSignature): string {
+    const trailingRange = new vscode.Range(signature.trailingSpecifierRange.start, signature.range.end);
+    return parse.maskParentheses(parse.maskNonSourceText(functionSymbol.document.getText(trailingRange)));
+}
+
+/**
+ * override follows the trailing return type, and precedes a pure-specifier.
+ */
+function getOverridePosition(functionSymbol: CSymbol): vscode.Position {
+    const signature = new FunctionSignature(functionSymbol);
+    const maskedText = maskedTrailingText(functionSymbol, signature);
+    const pureSpecifierIndex = maskedText.search(/\s*=/);
+    const endIndex = pureSpecifierIndex !== -1 ? pureSpecifierIndex : maskedText.trimEnd().length;
+
+    const sourceDoc = functionSymbol.document;
+    return sourceDoc.positionAt(sourceDoc.offsetAt(signature.trailingSpecifierRange.start) + endIndex);
+}
+
+function removeTrailingOverride(functionSymbol: CSymbol, workspaceEdit: vscode.WorkspaceEdit): void {
+    const signature = new FunctionSignature(functionSymbol);
+    const match = maskedTrailingText(functionSymbol, signature).match(/[ \t]*\boverride\b/);
+    if (match?.index !== undefined) {
+        const sourceDoc = functionSymbol.document;
+        const startOffset = sourceDoc.offsetAt(signature.trailingSpecifierRange.start) + match.index;
+        workspaceEdit.delete(functionSymbol.uri, sourceDoc.rangeAt(startOffset, startOffset + match[0].length));
+    }
+}
+
+/**
+ * Returns the range of the nodiscard attribute of functionSymbol, including its brackets if it is the only
+ * attribute in them.
+ */
+function findNodiscard(functionSymbol: CSymbol): vscode.Range | undefined {
+    const sourceDoc = functionSymbol.document;
+    const leadingRange = new vscode.Range(functionSymbol.range.start, functionSymbol.selectionRange.start);
+    const leadingText = parse.maskQuotes(parse.maskComments(sourceDoc.getText(leadingRange)));
+
+    const match = leadingText.match(/\[\[\s*nodiscard\b(\s*\([^)]*\))?\s*\]\][ \t]*/)
+            ?? leadingText.match(/\bnodiscard\b(\s*\([^)]*\))?\s*,\s*|,\s*\bnodiscard\b(\s*\([^)]*\))?/);
+    if (match?.index !== undefined) {
+        const startOffset = sourceDoc.offsetAt(leadingRange.start) + match.index;
+        return sourceDoc.rangeAt(startOffset, startOffset + match[0].length);
+    }
+}
@@ -1,12 +1,22 @@
 import * as vscode from 'vscode';
+import * as util from '../utility';
 import * as parse from '../parsing';
 import SourceDocument from '../SourceDocument';
 import CSymbol from '../CSymbol';
 import FunctionSignature from '../FunctionSignature';
+import { overrideKey } from './overrideVirtualFunctions';
 import { logger } from '../extension';
 import { Parameter, ParameterList } from '../ParameterList';
+import { showMultiQuickPick } from '../QuickPick';
 
 
+/**
+ * The properties of a FunctionSignature that updateReturnType and updateSpecifiers copy to the linked signature.
+ */
+export type SignatureSpecifiers = Pick<FunctionSignature,
+    'returnType' | 'normalizedReturnType' | 'isConstexpr' | 'isConsteval' | 'isConst' | 'isVolatile' | 'refQualifier'
+    | 'noexcept' | 'normalizedNoexcept'>;
+
 export async function updateSignature(
     currentFunction: CSymbol,
     previousSig: FunctionSignature,
@@ -39,9 +49,163 @@ export async function updateSignature(
     updateReturnType(currentSig, linkedSig, linkedDoc, workspaceEdit);
     updateSpecifiers(currentSig, linkedSig, linkedDoc, workspaceEdit);
 
+    const declaration = currentFunction.isFunctionDeclaration() ? currentFunction : linkedFunction;
+    const relatedFunctions = await findRelatedVirtualFunctions(
+            declaration, previousSig, [currentFunction, linkedFunction]);
+    if (relatedFunctions.length > 0) {
+        const selectedFunctions = await promptUserForRelatedFunctions(relatedFunctions, currentSig.name);
+        selectedFunctions?.forEach(relatedFunction => {
+            updateRelatedFunction(currentSig, previousSig, sourceDoc, relatedFunction, workspaceEdit);
+        });
+    }
+
     return vscode.workspace.applyEdit(workspaceEdit);
 }
 
+/**
+ * Finds the virtual functions that declaration overrides and the functions that override them (found via the
+ * implementation provider), along with their declarations/definitions, that still have the previous signature.
+ */
+async function findRelatedVirtualFunctions(
+    declaration: CSymbol, previousSig: FunctionSignature, excludedFunctions: CSymbol[]
+): Promise<CSymbol[]> {
+    if (!declaration.parent?.isClassType() || declaration.isStatic()
+            || declaration.isConstructor() || declaration.isDestructor()) {
+        return [];
+    }
+
+    const previousKey = overrideKey(previousSig);
+    const isRelated = (symbol: CSymbol | undefined): symbol is CSymbol => !!symbol?.isFunction()
+            && symbol.name === previousSig.name && overrideKey(symbol) === previousKey
+            && !excludedFunctions.some(excluded => isSameSymbol(excluded, symbol));
+
+    const baseFunctions: CSymbol[] = [];
+    const visitedClasses = new Set<string>();
+
+    async function searchBaseClasses(derivedClass: CSymbol): Promise<void> {
+        for (const baseClass of await derivedClass.resolveBaseClasses()) {
+            const classKey = baseClass.uri.toString() + baseClass.selectionRange.start.line;
+            if (visitedClasses.has(classKey)) {
+                continue;
+            }
+            visitedClasses.add(classKey);
+
+            baseClass.children.forEach(child => {
+                const memberFunction = new CSymbol(child, baseClass.document);
+                if (memberFunction.isFunction() && memberFunction.isVirtual() && isRelated(memberFunction)) {
+                    baseFunctions.push(memberFunction);
+                }
+            });
+
+            await searchBaseClasses(baseClass);
+        }
+    }
+
+    await searchBaseClasses(declaration.parent);
+
+    const virtualFunctions = declaration.isVirtual() ? [declaration, ...baseFunctions] : baseFunctions;
+    if (virtualFunctions.length === 0) {
+        return [];
+    }
+
+    const implementationResults = await Promise.all(virtualFunctions.map(virtualFunction => {
+        return vscode.commands.executeCommand<util.LocationType[]>(
+                'vscode.executeImplementationProvider', virtualFunction.uri, virtualFunction.selectionRange.start);
+    }));
+    const implementations = implementationResults.flatMap(results => util.makeLocationArray(results));
+
+    const documents = new Map<string, SourceDocument>();
+    async function getSymbolAtLocation(location: vscode.Location): Promise<CSymbol | undefined> {
+        let document = documents.get(location.uri.fsPath);
+        if (!document) {
+            document = await SourceDocument.open(location.uri);
+            documents.set(location.uri.fsPath, document);
+        }
+        return document.getSymbol(location.range.start);
+    }
+
+    const relatedFunctions: CSymbol[] = [];
+    function addRelatedFunction(symbol: CSymbol): void {
+        if (!relatedFunctions.some(relatedFunction => isSameSymbol(relatedFunction, symbol))) {
+            relatedFunctions.push(symbol);
+        }
+    }
+
+    baseFunctions.forEach(addRelatedFunction);
+    for (const location of implementations) {
+        const symbol = await getSymbolAtLocation(location);
+        if (isRelated(symbol)) {
+            addRelatedFunction(symbol);
+        }
+    }
+
+    // Pure virtual functions are neither declarations nor definitions, and usually have no definition.
+    for (const relatedFunction of [...relatedFunctions]) {
+        let linkedLocation: vscode.Location | undefined;
+        if (relatedFunction.isFunctionDeclaration()) {
+            linkedLocation = await relatedFunction.findDefinition();
+        } else if (relatedFunction.isFunctionDefinition()) {
+            linkedLocation = await relatedFunction.findDeclaration();
+        }
+
+        const linkedFunction = linkedLocation ? await getSymbolAtLocation(linkedLocation) : undefined;
+        if (isRelated(linkedFunction)) {
+            addRelatedFunction(linkedFunction);
+        }
+    }
+
+    return relatedFunctions;
+}
+
+function isSameSymbol(a: CSymbol, b: CSymbol): boolean {
+    return a.uri.fsPath === b.uri.fsPath && a.range.start.isEqual(b.range.start);
+}
+
+interface RelatedFunctionItem extends vscode.QuickPickItem {
+    relatedFunction: CSymbol;
+}
+
+async function promptUserForRelatedFunctions(
+    relatedFunctions: CSymbol[], functionName: string
+): Promise<CSymbol[] | undefined> {
+    const functionItems: RelatedFunctionItem[] = relatedFunctions.map(relatedFunction => {
+        const parentClass = relatedFunction.parent?.isClassType() ? relatedFunction.parent : undefined;
+        return {
+            label: '$(symbol-method) ' + (parentClass ? parentClass.name + '::' : '') + relatedFunction.name,
+            description: util.formatSignature(relatedFunction),
+            detail: util.formatPathToDisplay(relatedFunction.uri) + ':' + (relatedFunction.range.start.line + 1),
+            relatedFunction: relatedFunction,
+            picked: true
+        };
+    });
+
+    const selectedItems = await showMultiQuickPick(functionItems, {
+        matchOnDescription: true,
+        title: `Select the overrides and overridden functions of "${functionName}" to update`
+    });
+
+    return selectedItems?.map(item => item.relatedFunction);
+}
+
+/**
+ * Overrides may have a covariant return type, so the return type of a related function is only updated if it
+ * matched the previous return type.
+ */
+function updateRelatedFunction(
+    currentSig: FunctionSignature,
+    previousSig: FunctionSignature,
+    sourceDoc: SourceDocument,
+    relatedFunction: CSymbol,
+    workspaceEdit: vscode.WorkspaceEdit
+): void {
+    const relatedSig = new FunctionSignature(relatedFunction);
+    updateParameters(currentSig, previousSig, sourceDoc, relatedSig, relatedFunction.document, workspaceEdit);
+    if (relatedSig.normalizedReturnType === previousSig.normalizedReturnType) {
+        updateReturnType(currentSig, relatedSig, relatedFunction.document, workspaceEdit);
+    }
+    updateSpecifiers(currentSig, relatedSig, relatedFunction.document, workspaceEdit);
+}
+
 function updateParameters(
     currentSig: FunctionSignature,
     previousSig: FunctionSignature,
@@ -150,8 +314,8 @@ function getDefaultInitializer(parameter: Parameter, linkedParameters: Parameter
     return linkedParameter?.defaultValue ? ' = ' + linkedParameter.defaultValue : '';
 }
 
-function updateReturnType(
-    currentSig: FunctionSignature,
+export function updateReturnType(
+    currentSig: SignatureSpecifiers,
     linkedSig: FunctionSignature,
     linkedDoc: SourceDocument,
     workspaceEdit: vscode.WorkspaceEdit
@@ -169,8 +333,8 @@ function updateReturnType(
     workspaceEdit.replace(linkedDoc.uri, linkedSig.returnTypeRange, newReturnType);
 }
 
-function updateSpecifiers(
-    currentSig: FunctionSignature,
+export function updateSpecifiers(
+    currentSig: SignatureSpecifiers,
     linkedSig: FunctionSignature,
     linkedDoc: SourceDocument,
     workspaceEdit: vscode.WorkspaceEdit
@@ -254,11 +418,18 @@ function updateSpecifiers(
 
     if (currentSig.normalizedNoexcept !== linkedSig.normalizedNoexcept) {
         if (linkedSig.normalizedNoexcept.length === 0) {
-            trailingSpecifiers += currentSig.noexcept;
+            // The exception specification precedes virt-specifiers and pure-specifiers.
+            const noexcept = /^\s/.test(currentSig.noexcept) ? currentSig.noexcept : ' ' + currentSig.noexcept;
+            const virtSpecifierIndex = maskedSpecifiers.search(/\s*(\b(override|final)\b|=)/);
+            trailingSpecifiers = virtSpecifierIndex !== -1
+                    ? trailingSpecifiers.slice(0, virtSpecifierIndex) + noexcept
+                        + trailingSpecifiers.slice(virtSpecifierIndex)
+                    : trailingSpecifiers + noexcept;
         } else {
             const match = maskedSpecifiers.match(/(?<!\n)([ \t]*)\bnoexcept\b(\s*\(\s*\))?/);
             if (match?.index !== undefined) {
-                trailingSpecifiers = trailingSpecifiers.slice(0, match.index + match[1].length)
+                const whitespace = currentSig.noexcept.length !== 0 ? match[1] : '';
+                trailingSpecifiers = trailingSpecifiers.slice(0, match.index) + whitespace
                         + currentSig.noexcept + trailingSpecifiers.slice(match.index + match[0].length);
             }
         }
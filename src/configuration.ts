@@ -28,6 +28,8 @@ export enum DefinitionLocation {
     SourceFile
 }
 
+export type ReturnTypeCategory = 'void' | 'pointer' | 'reference' | 'value';
+
 export enum CaseStyle {
     snake_case,
     camelCase,
@@ -52,8 +54,10 @@ const defaultCaseStyle = CaseStyle.camelCase;
 const defaultBracedInitialization = false;
 const defaultExplicitThisPointer = false;
 const defaultFriendComparisonOperators = false;
+const defaultDefinitionBodyTemplate = '';
 
 export const cmanticKey = 'C_mantic';
+export const diagnosticsKey = cmanticKey + '.diagnostics';
 export const cpptoolsKey = 'C_Cpp';
 
 function configuration(scope?: vscode.ConfigurationScope): vscode.WorkspaceConfiguration {
@@ -90,10 +94,26 @@ export function generateGetterSetterEnabled(): boolean {
     return configuration().get<boolean>('codeActions.enableGenerateGetterSetter', defaultCodeActionEnable);
 }
 
+export function extractFunctionEnabled(): boolean {
+    return configuration().get<boolean>('codeActions.enableExtractFunction', defaultCodeActionEnable);
+}
+
 export function updateSignatureEnabled(): boolean {
     return configuration().get<boolean>('codeActions.enableUpdateFunctionSignature', defaultCodeActionEnable);
 }
 
+export function signatureMismatchDiagnosticsEnabled(): boolean {
+    return configuration().get<boolean>('diagnostics.enableSignatureMismatch', true);
+}
+
+export function missingDeclarationDiagnosticsEnabled(): boolean {
+    return configuration().get<boolean>('diagnostics.enableMissingDeclaration', true);
+}
+
+export function declarationDefinitionCodeLensEnabled(): boolean {
+    return configuration().get<boolean>('codeLens.enableDeclarationDefinition', true);
+}
+
 export function headerExtensions(scope: vscode.ConfigurationScope): string[] {
     return configuration(scope).get<string[]>('extensions.headerFiles', defaultHeaderExtensions);
 }
@@ -186,6 +206,18 @@ export function setterDefinitionLocation(scope: vscode.ConfigurationScope): Defi
     return stringToDefinitionLocation(configuration(scope).get<string>('cpp.accessor.setterDefinitionLocation'));
 }
 
+export function constructorDefinitionLocation(scope: vscode.ConfigurationScope): DefinitionLocation {
+    return stringToDefinitionLocation(configuration(scope).get<string>('cpp.constructorDefinitionLocation'));
+}
+
+export function definitionBodyTemplate(
+    languageId: string, category: ReturnTypeCategory, scope: vscode.ConfigurationScope
+): string {
+    const templates = configuration(scope).get<{ [category: string]: string }>(
+            languageId + '.definitionBodyTemplate');
+    return templates?.[category] ?? defaultDefinitionBodyTemplate;
+}
+
 function stringToDefinitionLocation(location?: string): DefinitionLocation {
     switch (location) {
     case 'Generate definition inline':
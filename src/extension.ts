@@ -5,6 +5,9 @@ import Logger from './Logger';
 import HeaderSourceCache from './HeaderSourceCache';
 import { commandHandlers } from './commands/commands';
 import { CodeActionProvider } from './CodeActionProvider';
+import { CodeLensProvider } from './CodeLensProvider';
+import { UndefinedFunctionsProvider } from './UndefinedFunctionsProvider';
+import { DeclarationDiagnostics } from './DeclarationDiagnostics';
 import { cclsId, clangdId, cpptoolsId, LanguageServer } from './common';
 
 
@@ -12,15 +15,24 @@ export const cmanticId = 'tdennis4496.cmantic';
 
 export const logger = new Logger('C-mantic');
 
+export const undefinedFunctionsProvider = new UndefinedFunctionsProvider();
+
 const codeActionProvider = new CodeActionProvider();
+const codeLensProvider = new CodeLensProvider();
+const declarationDiagnostics = new DeclarationDiagnostics();
 const headerSourceCache = new HeaderSourceCache();
-const disposables: vscode.Disposable[] = [logger, codeActionProvider];
+const disposables: vscode.Disposable[] = [
+    logger, codeActionProvider, codeLensProvider, undefinedFunctionsProvider, declarationDiagnostics
+];
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
     registerCommands(context);
     await cacheOpenDocuments();
     registerCodeActionProvider(context);
+    registerCodeLensProvider(context);
+    registerTreeDataProviders(context);
     registerEventListeners();
+    declarationDiagnostics.updateActiveDocument();
     pollExtensionsToSetLanguageServer();
     logActivation(context);
 }
@@ -81,6 +93,21 @@ function registerCodeActionProvider(context: vscode.ExtensionContext): void {
     );
 }
 
+function registerCodeLensProvider(context: vscode.ExtensionContext): void {
+    const documentSelector: vscode.DocumentSelector = [
+        { scheme: 'file', language: 'c' },
+        { scheme: 'file', language: 'cpp' }
+    ];
+
+    context.subscriptions.push(vscode.languages.registerCodeLensProvider(documentSelector, codeLensProvider));
+}
+
+function registerTreeDataProviders(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider(UndefinedFunctionsProvider.viewId, undefinedFunctionsProvider)
+    );
+}
+
 function registerEventListeners(): void {
     disposables.push(vscode.workspace.onDidOpenTextDocument(onDidOpenTextDocument));
     disposables.push(vscode.workspace.onDidCreateFiles(onDidCreateFiles));
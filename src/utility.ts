@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as parse from './parsing';
 import SourceSymbol from './SourceSymbol';
 import CSymbol from './CSymbol';
+import SourceDocument from './SourceDocument';
 import SubSymbol from './SubSymbol';
 import { ProposedPosition } from './ProposedPosition';
 import { activeLanguageServer, LanguageServer } from './extension';
@@ -249,6 +250,30 @@ export async function makeDeclDefLink(declaration: CSymbol): Promise<Declaration
     };
 }
 
+/**
+ * Returns the definition of a function declaration, or the declaration of a function definition. Going to the
+ * declaration from the definition, or vice versa, may land on the function itself (such as for a definition in a
+ * class body), in which case there is no linked function.
+ */
+export async function findLinkedFunction(functionSymbol: CSymbol): Promise<CSymbol | undefined> {
+    const location = functionSymbol.isFunctionDeclaration()
+            ? await functionSymbol.findDefinition()
+            : await functionSymbol.findDeclaration();
+    if (!location || (location.uri.fsPath === functionSymbol.uri.fsPath
+            && functionSymbol.range.contains(location.range))) {
+        return;
+    }
+
+    const linkedDoc = location.uri.fsPath === functionSymbol.uri.fsPath
+            ? functionSymbol.document
+            : await SourceDocument.open(location.uri);
+    const linkedSymbol = await linkedDoc.getSymbol(location.range.start);
+    if (linkedSymbol?.isFunction() && linkedSymbol.name === functionSymbol.name
+            && linkedSymbol.isFunctionDeclaration() !== functionSymbol.isFunctionDeclaration()) {
+        return linkedSymbol;
+    }
+}
+
 /**
  * Indicates that the function requires a definition that is visible to translation unit that declares it.
  */
@@ -0,0 +1,311 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import SourceDocument from '../../src/SourceDocument';
+import CSymbol from '../../src/CSymbol';
+import FunctionSignature from '../../src/FunctionSignature';
+import { CodeAction, CodeActionProvider } from '../../src/CodeActionProvider';
+import { setActiveLanguageServer } from '../../src/extension';
+import { inlineFunction } from '../../src/commands/inlineFunction';
+import { extractFunction } from '../../src/commands/extractFunction';
+import { extractClass } from '../../src/commands/extractClass';
+import { ChangedSignature, changeSignature } from '../../src/commands/changeSignature';
+import {
+    convertReturnTypesInFile, convertToLeadingReturnType, convertToTrailingReturnType
+} from '../../src/commands/convertReturnType';
+import { findSpecifierToggles } from '../../src/commands/toggleSpecifier';
+import { findDefinitionsWithoutDeclarations } from '../../src/commands/addDeclaration';
+import { title as caseLabelsTitle } from '../../src/commands/addMissingCaseLabels';
+import { languageServerExtensionId, wait } from './helpers';
+
+
+suite('Command Test Suite', function () {
+    this.timeout(process.env.DEBUG_TESTS ? 0 : 90_000);
+
+    const rootPath = path.resolve(__dirname, '..', '..', '..');
+    const testWorkspacePath = path.join(rootPath, 'test', 'workspace');
+    const headerPath = path.join(testWorkspacePath, 'include', 'counter.h');
+    const sourcePath = path.join(testWorkspacePath, 'src', 'counter.cpp');
+    const cSourcePath = path.join(testWorkspacePath, 'src', 'tally.c');
+    const extractedHeaderPath = path.join(testWorkspacePath, 'include', 'extracted_counter.h');
+    const extractedSourcePath = path.join(testWorkspacePath, 'src', 'extracted_counter.cpp');
+
+    let headerDoc: SourceDocument;
+    let sourceDoc: SourceDocument;
+
+    async function openTestDocument(filePath: string, languageId = 'cpp'): Promise<SourceDocument> {
+        const editor = await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+        const document = await vscode.languages.setTextDocumentLanguage(editor.document, languageId);
+        return new SourceDocument(document);
+    }
+
+    async function revertTestDocument(filePath: string): Promise<void> {
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+        await vscode.commands.executeCommand('workbench.action.files.revert');
+    }
+
+    function positionOf(document: SourceDocument, text: string): vscode.Position {
+        const offset = document.getText().indexOf(text);
+        assert.notStrictEqual(offset, -1, `"${text}" was not found in ${path.basename(document.uri.fsPath)}.`);
+        return document.positionAt(offset);
+    }
+
+    function rangeOf(document: SourceDocument, text: string): vscode.Range {
+        const start = positionOf(document, text);
+        return new vscode.Range(start, document.positionAt(document.offsetAt(start) + text.length));
+    }
+
+    async function findFunction(document: SourceDocument, text: string): Promise<CSymbol> {
+        const functionSymbol = await document.getSymbol(positionOf(document, text));
+        assert(functionSymbol);
+        assert(functionSymbol.isFunction());
+        return functionSymbol;
+    }
+
+    /**
+     * Waits until the language server provides the symbols of document after it was edited, by checking whether the
+     * function at text has a trailing return type.
+     */
+    async function waitForTrailingReturnType(
+        document: SourceDocument, text: string, hasTrailingReturnType: boolean
+    ): Promise<void> {
+        for (;;) {
+            await document.executeSourceSymbolProvider();
+            const functionSymbol = await document.getSymbol(positionOf(document, text));
+            if (functionSymbol?.isFunction()
+                    && new FunctionSignature(functionSymbol).hasTrailingReturnType === hasTrailingReturnType) {
+                return;
+            }
+            await wait(500);
+        }
+    }
+
+    suiteSetup(async function () {
+        if (!process.env.DEBUG_TESTS) {
+            const languageServerExtension = vscode.extensions.getExtension(languageServerExtensionId());
+            assert(languageServerExtension);
+            if (!languageServerExtension.isActive) {
+                await languageServerExtension.activate();
+            }
+            assert(languageServerExtension.isActive);
+        }
+
+        headerDoc = await openTestDocument(headerPath);
+        sourceDoc = await openTestDocument(sourcePath);
+
+        setActiveLanguageServer();
+
+        // Wait until the language server is initialized.
+        const waitTime = process.env.CI ? 3_000 : 1_500;
+        do {
+            await wait(waitTime);
+            await sourceDoc.executeSourceSymbolProvider();
+            await headerDoc.executeSourceSymbolProvider();
+        } while (!sourceDoc.symbols || !headerDoc.symbols);
+    });
+
+    teardown(async function () {
+        // Undo the edits of the test, since the documents are shared by all tests.
+        const deleteEdit = new vscode.WorkspaceEdit();
+        deleteEdit.deleteFile(vscode.Uri.file(extractedHeaderPath), { ignoreIfNotExists: true });
+        deleteEdit.deleteFile(vscode.Uri.file(extractedSourcePath), { ignoreIfNotExists: true });
+        await vscode.workspace.applyEdit(deleteEdit);
+        await revertTestDocument(cSourcePath);
+        await revertTestDocument(headerPath);
+        await revertTestDocument(sourcePath);
+        const revertedHeaderDoc = await openTestDocument(headerPath);
+        const revertedSourceDoc = await openTestDocument(sourcePath);
+        headerDoc = revertedHeaderDoc;
+        sourceDoc = revertedSourceDoc;
+    });
+
+    test('Test Inline Function with a captured argument', async function () {
+        const success = await inlineFunction(sourceDoc, positionOf(sourceDoc, 'store(b);'));
+        assert.strictEqual(success, true);
+
+        const text = sourceDoc.getText();
+        assert.match(text, /{\s*int value = b;\s*int b = value;\s*g_total \+= b;\s*}/);
+        assert.doesNotMatch(text, /int b = b;/);
+    });
+
+    test('Test Inline Function with an argument that needs conversion', async function () {
+        const success = await inlineFunction(sourceDoc, positionOf(sourceDoc, 'half(3)'));
+        assert.strictEqual(success, true);
+
+        const text = sourceDoc.getText();
+        assert(text.includes('static_cast<double>(3) / 2'));
+        assert(text.includes('half(1.0)'));
+    });
+
+    test('Test Inline Function does not evaluate a function call more than once', async function () {
+        const success = await inlineFunction(sourceDoc, positionOf(sourceDoc, 'sq(nextValue())'));
+        assert.strictEqual(success, undefined);
+        assert(sourceDoc.getText().includes('sq(nextValue())'));
+    });
+
+    test('Test Inline Function with an argument that is used more than once', async function () {
+        const success = await inlineFunction(sourceDoc, positionOf(sourceDoc, 'addTwice(nextValue());'));
+        assert.strictEqual(success, true);
+        assert.match(sourceDoc.getText(),
+                /{\s*const int &value = nextValue\(\);\s*g_total \+= value;\s*g_total \+= value;\s*}/);
+    });
+
+    test('Test Add Missing Case Labels is only offered for enums', async function () {
+        const codeActionProvider = new CodeActionProvider();
+
+        const enumSwitchPosition = positionOf(sourceDoc, 'switch (color)');
+        const enumActions: CodeAction[] = await codeActionProvider.provideCodeActions(
+                sourceDoc, new vscode.Range(enumSwitchPosition, enumSwitchPosition), { diagnostics: [] });
+        assert(enumActions.some(action => action.title === caseLabelsTitle.addMissingCaseLabels));
+
+        const intSwitchPosition = positionOf(sourceDoc, 'switch (b)');
+        const intActions: CodeAction[] = await codeActionProvider.provideCodeActions(
+                sourceDoc, new vscode.Range(intSwitchPosition, intSwitchPosition), { diagnostics: [] });
+        assert(!intActions.some(action => action.title === caseLabelsTitle.addMissingCaseLabels));
+    });
+
+    test('Test static is not offered for functions that use non-static members', async function () {
+        const isStaticOffered = async (functionSymbol: CSymbol): Promise<boolean> =>
+                (await findSpecifierToggles(functionSymbol)).some(toggle => toggle.specifier === 'static');
+
+        assert.strictEqual(await isStaticOffered(await findFunction(headerDoc, 'square')), true);
+        assert.strictEqual(await isStaticOffered(await findFunction(headerDoc, 'current')), false);
+        assert.strictEqual(await isStaticOffered(await findFunction(sourceDoc, 'increment')), false);
+    });
+
+    test('Test undeclared overloads are found by Add Declarations', async function () {
+        const definitions = await findDefinitionsWithoutDeclarations(sourceDoc, headerDoc.uri);
+        const undeclaredMembers = definitions.filter(definition => definition.immediateScope());
+
+        assert.strictEqual(undeclaredMembers.length, 1);
+        assert.strictEqual(undeclaredMembers[0].name, 'add');
+        assert.match(undeclaredMembers[0].text(), /\bdouble amount\b/);
+    });
+
+    test('Test Extract Function from a member function', async function () {
+        const success = await extractFunction(sourceDoc, rangeOf(sourceDoc, '++m_count;'), 'extractedFunction');
+        assert.strictEqual(success, true);
+
+        assert.match(headerDoc.getText(), /private:[^}]*\bvoid extractedFunction\(\);/);
+        assert.match(sourceDoc.getText(), new RegExp('void Counter::extractedFunction\\(\\)\\s*{\\s*\\+\\+m_count;\\s*}\\s*'
+                + 'void Counter::increment\\(\\)\\s*{\\s*extractedFunction\\(\\);\\s*}'));
+    });
+
+    test('Test Extract Function passes modified variables by reference', async function () {
+        const loop = 'for (int i = 0; i < count; ++i) {\n        sum += i;\n    }';
+        const success = await extractFunction(sourceDoc, rangeOf(sourceDoc, loop), 'extractedFunction');
+        assert.strictEqual(success, true);
+
+        const text = sourceDoc.getText();
+        assert.match(text, /static void extractedFunction\(int count, int &sum\)\s*{\s*for [^}]*sum \+= i;\s*}\s*}/);
+        assert(text.includes('extractedFunction(count, sum);'));
+    });
+
+    test('Test Extract Function passes modified variables by pointer in C', async function () {
+        const cSourceDoc = await openTestDocument(cSourcePath, 'c');
+        while (!cSourceDoc.symbols) {
+            await wait(process.env.CI ? 3_000 : 1_500);
+            await cSourceDoc.executeSourceSymbolProvider();
+        }
+
+        const loop = 'for (int i = 0; i < count; ++i) {\n        total += i;\n    }';
+        const success = await extractFunction(cSourceDoc, rangeOf(cSourceDoc, loop), 'extractedFunction');
+        assert.strictEqual(success, true);
+
+        const text = cSourceDoc.getText();
+        assert.match(text, /static void extractedFunction\(int count, int \*total\)\s*{[^}]*\(\*total\) \+= i;/);
+        assert(text.includes('extractedFunction(count, &total);'));
+    });
+
+    test('Test Change Signature reorders the arguments of calls', async function () {
+        const success = await changeSignature(
+                await findFunction(sourceDoc, 'combine(int'), sourceDoc, async (changes: ChangedSignature) => {
+                    changes.parameters.reverse();
+                    return true;
+                });
+        assert.strictEqual(success, true);
+
+        const text = sourceDoc.getText();
+        assert(text.includes('int combine(int second, int first)'));
+        assert(text.includes('return combine(2, 1);'));
+    });
+
+    test('Test Change Signature passes the argument of a new parameter to calls', async function () {
+        const success = await changeSignature(
+                await findFunction(sourceDoc, 'combine(int'), sourceDoc, async (changes: ChangedSignature) => {
+                    changes.parameters.push({ type: 'int', name: 'third', defaultValue: '', argument: '0' });
+                    return true;
+                });
+        assert.strictEqual(success, true);
+
+        const text = sourceDoc.getText();
+        assert(text.includes('int combine(int first, int second, int third)'));
+        assert(text.includes('return combine(1, 2, 0);'));
+    });
+
+    test('Test Change Signature does not rename a local that shadows a parameter', async function () {
+        const success = await changeSignature(
+                await findFunction(sourceDoc, 'combine(int'), sourceDoc, async (changes: ChangedSignature) => {
+                    changes.renameParameter(changes.parameters[0], 'base');
+                    return true;
+                });
+        assert.strictEqual(success, true);
+
+        const text = sourceDoc.getText();
+        assert(text.includes('int combine(int base, int second)'));
+        assert.match(text, /int first = 1;\s*g_total \+= first;/);
+        assert(text.includes('return base * 10 + second;'));
+        assert(text.includes('return combine(1, 2);'));
+    });
+
+    test('Test Convert Return Type from leading to trailing and back', async function () {
+        const originalText = sourceDoc.getText();
+
+        assert.strictEqual(await convertToTrailingReturnType(await findFunction(sourceDoc, 'half('), sourceDoc), true);
+        assert(sourceDoc.getText().includes('auto half(double x) -> double'));
+
+        await waitForTrailingReturnType(sourceDoc, 'half(', true);
+        assert.strictEqual(await convertToLeadingReturnType(await findFunction(sourceDoc, 'half('), sourceDoc), true);
+        assert.strictEqual(sourceDoc.getText(), originalText);
+    });
+
+    test('Test Convert Return Types in File from leading to trailing and back', async function () {
+        const originalSourceText = sourceDoc.getText();
+        const originalHeaderText = headerDoc.getText();
+
+        assert.strictEqual(await convertReturnTypesInFile(sourceDoc, 'trailing'), true);
+        assert(sourceDoc.getText().includes('auto Counter::increment() -> void'));
+        assert(sourceDoc.getText().includes('auto useHelpers(int b, Color color) -> int'));
+        assert(headerDoc.getText().includes('auto increment() -> void;'));
+
+        await waitForTrailingReturnType(sourceDoc, 'useHelpers(', true);
+        await waitForTrailingReturnType(headerDoc, 'increment(', true);
+        assert.strictEqual(await convertReturnTypesInFile(sourceDoc, 'leading'), true);
+        assert.strictEqual(sourceDoc.getText(), originalSourceText);
+        assert.strictEqual(headerDoc.getText(), originalHeaderText);
+    });
+
+    test('Test Extract Class moves the class and its member definitions to new files', async function () {
+        const classSymbol = await headerDoc.getSymbol(positionOf(headerDoc, 'Counter'));
+        assert(classSymbol);
+        assert(classSymbol.isClassType());
+
+        const success = await extractClass(classSymbol, headerDoc, vscode.Uri.file(extractedHeaderPath));
+        assert.strictEqual(success, true);
+
+        const extractedHeaderText = (await vscode.workspace.openTextDocument(extractedHeaderPath)).getText();
+        assert.match(extractedHeaderText, /\bclass Counter\b/);
+        assert(extractedHeaderText.includes('int square(int value)'));
+
+        const extractedSourceText = (await vscode.workspace.openTextDocument(extractedSourcePath)).getText();
+        assert(extractedSourceText.includes('extracted_counter.h"'));
+        assert(extractedSourceText.includes('void Counter::increment()'));
+        assert(extractedSourceText.includes('void Counter::add(int amount)'));
+
+        assert(headerDoc.getText().includes('#include "extracted_counter.h"'));
+        assert.doesNotMatch(headerDoc.getText(), /\bclass Counter\b/);
+        assert(headerDoc.getText().includes('enum class Color'));
+        assert(!sourceDoc.getText().includes('void Counter::increment()'));
+        assert(sourceDoc.getText().includes('double half(double x)'));
+    });
+});
@@ -106,11 +106,22 @@ suite('Extension Test Suite', function () {
 
         const refactorActions: CodeAction[] = await codeActionProvider.provideCodeActions(
                 sourceDoc, testClass.selectionRange, { diagnostics: [], only: vscode.CodeActionKind.Refactor });
-        assert.strictEqual(refactorActions.length, 4);
-        assert.strictEqual(refactorActions[0].title, `Generate Equality Operators for "${testClass.name}"`);
-        assert.strictEqual(refactorActions[1].title, `Generate Relational Operators for "${testClass.name}"`);
-        assert.strictEqual(refactorActions[2].title, `Generate Stream Output Operator for "${testClass.name}"`);
-        assert.strictEqual(refactorActions[3].title, 'Add Definitions...');
+        assert.strictEqual(refactorActions.length, 15);
+        assert.strictEqual(refactorActions[0].title, `Generate Constructor for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[1].title, `Generate Special Member Functions for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[2].title, `Override Virtual Functions for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[3].title, `Generate Equality Operators for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[4].title, `Generate Relational Operators for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[5].title, `Generate Three-Way Comparison Operator for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[6].title, `Generate Arithmetic Operators for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[7].title, `Generate Stream Output Operator for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[8].title, `Generate Stream Input Operator for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[9].title, `Generate Swap Functions for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[10].title, `Generate std::hash Specialization for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[11].title, `Move Member Definitions out of Class for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[12].title, `Extract Class to New Files for "${testClass.name}"`);
+        assert.strictEqual(refactorActions[13].title, 'Add Definitions...');
+        assert.strictEqual(refactorActions[14].title, 'Convert Return Types in File');
 
         assert(testClass.children.length > 0);
 
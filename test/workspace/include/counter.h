@@ -0,0 +1,19 @@
+#ifndef COUNTER_H
+#define COUNTER_H
+
+enum class Color { Red, Green, Blue };
+
+class Counter
+{
+public:
+    void increment();
+    void add(int amount);
+
+    int current() { return m_count; }
+    int square(int value) { return value * value; }
+
+private:
+    int m_count = 0;
+};
+
+#endif // COUNTER_H
@@ -0,0 +1,91 @@
+#include "counter.h"
+
+int g_total = 0;
+
+void Counter::increment()
+{
+    ++m_count;
+}
+
+void Counter::add(int amount)
+{
+    m_count += amount;
+}
+
+void Counter::add(double amount)
+{
+    m_count += static_cast<int>(amount);
+}
+
+double half(double x)
+{
+    return x / 2;
+}
+
+int nextValue()
+{
+    return ++g_total;
+}
+
+int sq(int x)
+{
+    return x * x;
+}
+
+void addTwice(const int &value)
+{
+    g_total += value;
+    g_total += value;
+}
+
+void store(int value)
+{
+    int b = value;
+    g_total += b;
+}
+
+int accumulate(int count)
+{
+    int sum = 0;
+    for (int i = 0; i < count; ++i) {
+        sum += i;
+    }
+    return sum;
+}
+
+int combine(int first, int second)
+{
+    {
+        int first = 1;
+        g_total += first;
+    }
+    return first * 10 + second;
+}
+
+int useCombine()
+{
+    return combine(1, 2);
+}
+
+int useHelpers(int b, Color color)
+{
+    store(b);
+    store(b + 1);
+    double h = half(3);
+    h += half(1.0);
+    h += sq(nextValue()) + sq(b);
+    addTwice(nextValue());
+    addTwice(b);
+
+    switch (color) {
+    case Color::Red:
+        break;
+    }
+
+    switch (b) {
+    case 0:
+        break;
+    }
+
+    return static_cast<int>(h);
+}
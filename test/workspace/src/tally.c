@@ -0,0 +1,8 @@
+int tally(int count)
+{
+    int total = 0;
+    for (int i = 0; i < count; ++i) {
+        total += i;
+    }
+    return total;
+}